@@ -2,17 +2,116 @@ export {
   SegmentProvider,
   useSegment,
   SegmentContext,
+  SegmentClientsContext,
   useSegmentClient,
+  useSegments,
 } from './lib/provider';
-export { SegmentClient } from './lib/client';
+export { FanOut, fanOut } from './lib/fanout';
+export {
+  SegmentClient,
+  CallResult,
+  ClientStatus,
+  LoadErrorPolicy,
+  Transport,
+} from './lib/client';
+export { QueuePolicy } from './lib/queue';
+export {
+  ClientEvent,
+  ClientEvents,
+  ClientEmitter,
+  DropReason,
+} from './lib/events';
+export { Logger, consoleLogger } from './lib/logger';
+export {
+  LoadOptions,
+  ScriptLoadError,
+  ScriptLoadFailure,
+  loadSegmentSnippet,
+} from './lib/load';
+export { ServerAnalytics, ServerAnalyticsOptions } from './lib/server';
+export { BrowserAnalytics, BrowserAnalyticsOptions } from './lib/browser';
+export {
+  HttpAnalytics,
+  HttpAnalyticsOptions,
+  Fetch,
+  Payload,
+} from './lib/http';
+export {
+  StorageAdapter,
+  Persistence,
+  createMemoryStorage,
+} from './lib/storage';
+export {
+  JSONSchema,
+  TrackingPlanSchema,
+  SchemaError,
+  Violation,
+  ViolationPolicy,
+  TrackingPlanError,
+  validateSchema,
+} from './lib/validation';
+export { Middleware, anonymizeIp } from './lib/middleware';
+export {
+  PrivacyAction,
+  PrivacyRule,
+  PrivacyOptions,
+  Redaction,
+  privacyFilter,
+  defaultPrivacyRules,
+} from './lib/privacy';
+export {
+  RouteSource,
+  PageTrackingOptions,
+  historyRouteSource,
+} from './lib/pages';
+export {
+  useTrackLink,
+  useTrackForm,
+  useConsent,
+  useSegmentLoader,
+  useIdentity,
+  useIdentify,
+  useGroup,
+  usePageTracking,
+  useTrackOnMount,
+  useTrackOnView,
+  useSegmentEvent,
+  TrackOnViewOptions,
+} from './lib/hooks';
+export {
+  TrackOnMount,
+  TrackOnView,
+  TrackClick,
+  Identify,
+} from './lib/components';
+export { SegmentDevtools, DevtoolsStatus } from './lib/devtools';
+export {
+  Consent,
+  ConsentCategory,
+  ConsentPolicy,
+  consentIntegrations,
+} from './lib/consent';
 export {
   Analytics,
   AliasEvent,
   EventType,
   GroupEvent,
   IdentifyEvent,
+  EventMessage,
+  Message,
   PageEvent,
   Properties,
+  QueuedMessage,
   SegmentOpts,
   TrackEvent,
+  TrackElementEvent,
+  TrackingPlan,
+  EventName,
+  EventProperties,
+  PlanTrackEvent,
+  UserTraits,
+  GroupTraits,
+  Identity,
+  AnalyticsUser,
+  AnalyticsListener,
 } from './lib/types';
@@ -0,0 +1,190 @@
+import { HttpAnalytics, HttpAnalyticsOptions } from './http';
+import { Properties, SegmentOpts } from './types';
+
+export interface BrowserAnalyticsOptions extends HttpAnalyticsOptions {
+  /**
+   * Send the last messages with `navigator.sendBeacon` when the page is hidden or closed. Defaults to true.
+   */
+  beacon?: boolean;
+}
+
+const oneYear = 60 * 60 * 24 * 365;
+
+function readCookie(name: string): string | null {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${name}=([^;]*)`));
+  if (!match) return null;
+  const value = decodeURIComponent(match[1]);
+  try {
+    // analytics.js stores the IDs as JSON strings
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'string' ? parsed : value;
+  } catch (error) {
+    return value;
+  }
+}
+
+function writeCookie(name: string, value: string | null): void {
+  const encoded =
+    value === null ? '' : encodeURIComponent(JSON.stringify(value));
+  const maxAge = value === null ? 0 : oneYear;
+  document.cookie = `${name}=${encoded}; path=/; max-age=${maxAge}; SameSite=Lax`;
+}
+
+function readTraits(): Properties {
+  try {
+    return JSON.parse(localStorage.getItem('ajs_user_traits') || '{}') || {};
+  } catch (error) {
+    return {};
+  }
+}
+
+function writeTraits(traits: Properties): void {
+  try {
+    localStorage.setItem('ajs_user_traits', JSON.stringify(traits));
+  } catch (error) {
+    // Storage can be full or disabled, in which case the traits only last for this page
+  }
+}
+
+/**
+ * The page properties analytics.js adds to page calls and to the context of every call.
+ */
+function pageProperties(): Properties {
+  const { pathname, search, href } = window.location;
+  return {
+    path: pathname,
+    referrer: document.referrer,
+    search,
+    title: document.title,
+    url: href,
+  };
+}
+
+/**
+ * Send calls straight to the Segment HTTP Tracking API from the browser, without loading analytics.js. This
+ * works when ad blockers block the Segment CDN, especially with a first-party proxy as the `host`.
+ *
+ * The user is stored in the same cookies and local storage as analytics.js, so switching between the two keeps
+ * the same anonymous ID. Messages called together are sent in one batch with `fetch` and `keepalive`, and
+ * with `sendBeacon` once the page is being hidden or closed.
+ */
+export class BrowserAnalytics extends HttpAnalytics {
+  private hidden = false;
+
+  constructor(options: BrowserAnalyticsOptions) {
+    super({ ...options, flushInterval: options.flushInterval ?? 0 });
+    this.userId = readCookie('ajs_user_id');
+    this.anonymousId = readCookie('ajs_anonymous_id');
+    this.traits = readTraits();
+
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    window.addEventListener('pagehide', this.onPageHide);
+    window.addEventListener('pageshow', this.onPageShow);
+  }
+
+  /**
+   * Stop listening to the page, for example when the client using this is replaced. Messages that are still
+   * waiting are sent.
+   */
+  destroy(): Promise<void> {
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('pagehide', this.onPageHide);
+    window.removeEventListener('pageshow', this.onPageShow);
+    return this.flush();
+  }
+
+  page(
+    category?: string,
+    name?: string,
+    properties: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    super.page(
+      category,
+      name,
+      { ...pageProperties(), ...properties },
+      options,
+      callback
+    );
+  }
+
+  trackLink(
+    elements: Element | Element[],
+    event: string,
+    properties?: Properties
+  ): void {
+    this.bind(elements, 'click', event, properties);
+  }
+
+  trackForm(
+    elements: Element | Element[],
+    event: string,
+    properties?: Properties
+  ): void {
+    this.bind(elements, 'submit', event, properties);
+  }
+
+  protected getContext(): Properties {
+    return {
+      page: pageProperties(),
+      userAgent: navigator.userAgent,
+      locale: navigator.language,
+    };
+  }
+
+  protected saveUser(): void {
+    writeCookie('ajs_user_id', this.userId);
+    writeCookie('ajs_anonymous_id', this.anonymousId);
+    writeTraits(this.traits);
+  }
+
+  /**
+   * Use sendBeacon while the page is hidden, because the page may be closed before a fetch finishes. Beacons
+   * can't have headers, but the write key is also in the body.
+   * @param url
+   * @param body
+   */
+  protected deliver(url: string, body: string): Promise<void> {
+    const { beacon = true } = this.options as BrowserAnalyticsOptions;
+    if (
+      beacon &&
+      this.hidden &&
+      typeof navigator.sendBeacon === 'function' &&
+      navigator.sendBeacon(url, body)
+    ) {
+      return Promise.resolve();
+    }
+    return super.deliver(url, body);
+  }
+
+  private onVisibilityChange = (): void => {
+    this.hidden = document.visibilityState === 'hidden';
+    if (this.hidden) this.flush();
+  };
+
+  private onPageHide = (): void => {
+    this.hidden = true;
+    this.flush();
+  };
+
+  private onPageShow = (): void => {
+    this.hidden = false;
+  };
+
+  /**
+   * Track an event whenever one of the elements is clicked or submitted. Sending uses keepalive, so the event
+   * is delivered even if the browser navigates away.
+   */
+  private bind(
+    elements: Element | Element[],
+    type: 'click' | 'submit',
+    event: string,
+    properties?: Properties
+  ): void {
+    const list = Array.isArray(elements) ? elements : [elements];
+    list.forEach(element =>
+      element.addEventListener(type, () => this.track(event, properties))
+    );
+  }
+}
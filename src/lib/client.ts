@@ -1,51 +1,482 @@
 import { EventEmitter } from 'events';
 import { EventType } from './types';
+import { Queue, QueuePolicy } from './queue';
+import { uuid } from './uuid';
+import {
+  Persistence,
+  StorageAdapter,
+  resolveStorage,
+  readMessages,
+  writeMessages,
+} from './storage';
+import {
+  TrackingPlanSchema,
+  ViolationPolicy,
+  TrackingPlanError,
+  validateMessage,
+} from './validation';
+import {
+  Middleware,
+  anonymizeIp,
+  applyMiddleware,
+  isEventMessage,
+} from './middleware';
+import { PrivacyOptions, privacyFilter } from './privacy';
+import {
+  Consent,
+  ConsentCategory,
+  ConsentPolicy,
+  consentMiddleware,
+  isConsentGranted,
+} from './consent';
+import {
+  LoadOptions,
+  ScriptLoadError,
+  getScriptUrl,
+  loadAnalytics,
+  getMaxLoadTime,
+} from './load';
+import { RateLimiter } from './limiter';
+import { BrowserAnalytics } from './browser';
+import { HttpAnalytics } from './http';
+import { ClientEmitter, DropReason } from './events';
+import { Logger, consoleLogger } from './logger';
+import { unref } from './timers';
 
 import {
-  SegmentOpts,
   Analytics,
   PageEvent,
   TrackEvent,
   AliasEvent,
   IdentifyEvent,
   GroupEvent,
-  Properties,
+  TrackElementEvent,
+  Message,
+  QueuedMessage,
+  TrackingPlan,
+  EventName,
+  PlanTrackEvent,
+  UserTraits,
+  GroupTraits,
+  Identity,
+  AnalyticsListener,
 } from './types';
 
-interface Options {
+export interface ClientOptions
+  extends Pick<
+    LoadOptions,
+    | 'cdnHost'
+    | 'scriptUrl'
+    | 'nonce'
+    | 'integrity'
+    | 'crossOrigin'
+    | 'scriptTimeout'
+    | 'scriptRetries'
+    | 'scriptRetryDelay'
+    | 'loadTimeout'
+    | 'logger'
+  > {
   apiKey: string;
+  /**
+   * Named clients load their own instance of analytics.js instead of using `window.analytics`, so several
+   * sources can be used on the same page.
+   */
+  name?: string;
+  /**
+   * Use this instead of loading analytics.js, for example ServerAnalytics when rendering on the server.
+   */
+  analytics?: Analytics;
+  transport?: Transport;
+  /**
+   * The host events are sent to, for example a first-party proxy for the Segment API. This is used by
+   * analytics.js and by the http transport.
+   */
+  apiHost?: string;
   debug?: boolean;
   timeout?: number;
+  /**
+   * How long to wait for analytics.js to call back before a call resolves as timed out, in milliseconds. Defaults
+   * to a second longer than `timeout`, since analytics.js calls back after `timeout` even when the call hasn't
+   * been delivered. With the http transport or HttpAnalytics, it defaults to a second longer than a batch can take
+   * to be sent, including retries.
+   */
+  callbackTimeout?: number;
   anonymizeIp?: boolean;
+  maxQueueSize?: number;
+  queuePolicy?: QueuePolicy;
+  loadErrorPolicy?: LoadErrorPolicy;
+  persist?: Persistence;
+  persistKey?: string;
+  /**
+   * Validate calls against this plan. Production builds skip validation unless `debug` is on.
+   */
+  trackingPlan?: TrackingPlanSchema;
+  onViolation?: ViolationPolicy;
+  privacy?: boolean | PrivacyOptions;
+  consent?: Consent;
+  requireConsent?: boolean;
+  consentPolicy?: ConsentPolicy;
+  consentCategories?: Record<string, ConsentCategory>;
+  sampleRates?: Record<string, number>;
+}
+
+/**
+ * How calls are sent to Segment. By default analytics.js is loaded from the Segment CDN. The http transport
+ * sends calls to the Segment HTTP Tracking API itself, so it still works when the CDN is blocked, but device-mode
+ * destinations aren't loaded.
+ */
+export type Transport = 'analytics.js' | 'http';
+
+/**
+ * Whether calls should resolve or reject after analytics.js has failed to load.
+ */
+export type LoadErrorPolicy = 'resolve' | 'reject';
+
+/**
+ * The client starts out pending and moves to loading once `load` is called. It becomes ready when analytics.js
+ * is loaded, or failed if it could not be loaded.
+ */
+export type ClientStatus = 'pending' | 'loading' | 'ready' | 'failed';
+
+interface Subscription {
+  method: EventType;
+  callback: AnalyticsListener;
+  listener: AnalyticsListener;
+}
+
+/**
+ * What happened to a call, which its promise resolves with. A call times out when analytics.js hasn't called
+ * back within `callbackTimeout`. Dropped calls have the reason they weren't sent.
+ */
+export interface CallResult {
+  status: 'sent' | 'timeout' | 'dropped';
+  messageId: string;
+  /**
+   * The milliseconds between the call and it being sent, timing out or being dropped.
+   */
+  duration: number;
+  reason?: DropReason;
+}
+
+interface PendingMessage {
+  message: QueuedMessage;
+  resolve: (result: CallResult) => void;
+  reject: (error: Error) => void;
+}
+
+const labels: Record<Message['type'], string> = {
+  page: 'Page',
+  identify: 'Identify',
+  track: 'Track',
+  group: 'Group',
+  alias: 'Alias',
+  trackLink: 'Track link',
+  trackForm: 'Track form',
+  reset: 'Reset',
+  setAnonymousId: 'Set anonymous ID',
+};
+
+/**
+ * The consent when it isn't required, where every category is granted.
+ */
+const fullConsent: Consent = {
+  analytics: true,
+  advertising: true,
+  functional: true,
+};
+
+/**
+ * Whether a message changes who the current user is.
+ * @param message
+ */
+function changesIdentity(message: Message): boolean {
+  return (
+    message.type === EventType.identify ||
+    message.type === 'reset' ||
+    message.type === 'setAnonymousId'
+  );
+}
+
+/**
+ * Work out who the user is after a message, the same way analytics.js does. Traits are merged when the same user
+ * is identified again and replaced when a different user is identified. Resetting forgets the user, and
+ * analytics.js generates a new anonymous ID.
+ * @param identity
+ * @param message
+ */
+function nextIdentity(identity: Identity, message: Message): Identity {
+  switch (message.type) {
+    case EventType.identify: {
+      const { userId, traits = {} } = message.event;
+      const sameUser = !identity.userId || identity.userId === userId;
+      return {
+        ...identity,
+        userId,
+        traits: sameUser ? { ...identity.traits, ...traits } : { ...traits },
+      };
+    }
+    case 'reset':
+      return { traits: {} };
+    case 'setAnonymousId':
+      return { ...identity, anonymousId: message.event.anonymousId };
+    default:
+      return identity;
+  }
 }
 
 /**
  * This is the wrapper around the Segment client that allows us to queue events until the library
  * has successfully loaded. If events are tracked before the client has loaded, they will be queued
  * up and triggered once it's ready.
+ *
+ * The client can be given a tracking plan type so event names, properties and traits are checked
+ * at compile time.
  */
-export class SegmentClient {
+export class SegmentClient<Plan extends TrackingPlan = TrackingPlan> {
   private client: Analytics | undefined;
 
-  private options: Options;
+  private options: ClientOptions;
+
+  private queue: Queue<PendingMessage>;
+
+  private loadError: Error | undefined;
+
+  private loading: Promise<void> | undefined;
+
+  private storage: StorageAdapter | undefined;
 
-  public emitter = new EventEmitter();
+  private inflight = new Map<string, QueuedMessage>();
 
-  constructor(options: Options) {
+  /**
+   * The http transport, when the client created one.
+   */
+  private transport: BrowserAnalytics | undefined;
+
+  /**
+   * The IDs of the messages this client last wrote to storage, so it can tell them apart from the messages other
+   * tabs have written.
+   */
+  private persisted = new Set<string>();
+
+  private middleware: Middleware[] = [];
+
+  private filters: Middleware[] = [];
+
+  /**
+   * Removes personal information from messages before they're persisted, when the privacy filter is on.
+   */
+  private redact: Middleware | undefined;
+
+  private consent: Consent | undefined;
+
+  private identity: Identity = { traits: {} };
+
+  private subscriptions: Subscription[] = [];
+
+  private limiter = new RateLimiter<TrackEvent, CallResult>(event =>
+    this.dispatch({ type: EventType.track, event })
+  );
+
+  /**
+   * Emits `loadStart`, `loaded`, `loadError`, `consent` and `identity` when the client changes. Every call
+   * emits `queued` while it waits, `sent` when it's passed to analytics.js, `delivered` when analytics.js calls back,
+   * `timeout` if it doesn't call back in time, and `dropped` with a DropReason if it's never sent. See ClientEvents
+   * for the arguments of each event.
+   */
+  public emitter = new EventEmitter() as ClientEmitter;
+
+  constructor(options: ClientOptions) {
     this.options = options;
+    // Every hook, devtools panel and pending ready() call listens to the emitter, so there's no sensible limit
+    this.emitter.setMaxListeners(0);
+    this.queue = new Queue({
+      maxSize: options.maxQueueSize ?? 100,
+      policy: options.queuePolicy,
+    });
+    if (options.persist) {
+      this.storage = resolveStorage(options.persist);
+      this.restore();
+    }
+    if (options.anonymizeIp) {
+      this.use(anonymizeIp());
+    }
+    this.consent = options.consent || (options.requireConsent ? {} : undefined);
+    if (options.consentCategories) {
+      this.filters.push(
+        consentMiddleware(
+          () => this.consent || fullConsent,
+          options.consentCategories
+        )
+      );
+    }
+    if (options.privacy) {
+      const privacy = options.privacy === true ? {} : options.privacy;
+      this.filters.push(this.createPrivacyFilter(privacy));
+      this.redact = privacyFilter({ ...privacy, onRedact: undefined });
+    }
+    if (options.analytics) {
+      this.initialize(options.analytics);
+    }
+  }
+
+  /**
+   * The current loading state of the client.
+   */
+  get status(): ClientStatus {
+    if (this.client) return 'ready';
+    if (this.loadError) return 'failed';
+    if (this.loading) return 'loading';
+    return 'pending';
+  }
+
+  /**
+   * Load analytics.js and initialize the client with it. Calls are queued until it has loaded. If consent is
+   * required, loading waits until the user has consented. Calling this again returns the same promise, which
+   * resolves once analytics.js has loaded or failed to load. Nothing is loaded when the client was created with
+   * its own `analytics`.
+   */
+  load(): Promise<void> {
+    if (this.options.analytics) return Promise.resolve();
+    if (!this.loading) {
+      this.loading = this.waitForConsent().then(() =>
+        this.options.transport === 'http'
+          ? this.loadHttpTransport()
+          : this.loadSnippet()
+      );
+      this.emitter.emit('loadStart');
+    }
+    return this.loading;
+  }
+
+  /**
+   * Where the client writes diagnostics. Hooks and components use it to report calls that failed.
+   */
+  get logger(): Logger {
+    return this.options.logger || consoleLogger;
+  }
+
+  /**
+   * Whether calls can be sent. This is true when consent isn't required or the user has consented to the
+   * analytics category, or to the category of one of the destinations in `consentCategories`.
+   */
+  get hasConsent(): boolean {
+    return (
+      !this.consent ||
+      isConsentGranted(this.consent, this.options.consentCategories)
+    );
   }
 
   /**
-   * Set the analytics client. This should only be called once.
+   * Return the categories the user has consented to, or undefined if consent isn't required.
+   */
+  getConsent(): Consent | undefined {
+    return this.consent;
+  }
+
+  /**
+   * Update the categories the user has consented to. Categories that aren't included keep their current value,
+   * and when consent wasn't required every category starts out granted. Once consent is granted, any calls queued
+   * while waiting for it are sent. A `consent` event is emitted when the consent changes.
+   * @param consent
+   */
+  setConsent(consent: Consent): void {
+    const current = this.consent || fullConsent;
+    const next = { ...current, ...consent };
+    const changed = Object.keys(next).some(
+      category =>
+        next[category as ConsentCategory] !==
+        current[category as ConsentCategory]
+    );
+    if (this.consent && !changed) return;
+    this.consent = next;
+    this.emitter.emit('consent', next);
+    this.flush();
+  }
+
+  /**
+   * Set the analytics client. This should only be called once. Any queued messages are sent in the
+   * order they were called. This can still be called after the client has failed, in which case future
+   * calls are sent as normal.
    * @param analytics
    */
   initialize(analytics: Analytics): void {
     if (this.client) return;
     const { timeout = 200, debug = false } = this.options;
     this.client = analytics;
+    this.loadError = undefined;
     this.client.timeout(timeout);
     this.client.debug(debug);
+    this.subscriptions.forEach(({ method, listener }) =>
+      analytics.on(method, listener)
+    );
+    this.emitter.emit('loaded', analytics);
     this.emitter.emit('initialize');
+    this.flush();
+    this.emitter.emit('identity', this.user());
+  }
+
+  /**
+   * Mark analytics.js as failed to load, for example when the script is blocked or takes too long. Queued
+   * and future calls will resolve straight away as dropped, or reject if the `loadErrorPolicy` is "reject", instead
+   * of waiting forever. A `loadError` event is emitted with the error.
+   * @param error
+   */
+  fail(error: Error): void {
+    if (this.client || this.loadError) return;
+    this.loadError = error;
+    this.log('[Segment] analytics.js failed to load', error);
+    this.emitter.emit('loadError', error);
+    this.queue
+      .clear()
+      .forEach(pending =>
+        this.settleFailed(
+          pending.resolve,
+          pending.reject,
+          this.drop(pending.message, 'loadError')
+        )
+      );
+  }
+
+  /**
+   * Add middleware that every page, identify, track, group and alias call goes through before it's sent. Middleware
+   * can enrich, rewrite or drop messages and runs in the order it was added. Queued messages go through middleware
+   * when they're sent, so middleware added before analytics.js loads still applies to them.
+   * @param middleware
+   * @returns A function that removes the middleware
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter(fn => fn !== middleware);
+    };
+  }
+
+  /**
+   * Return the messages that are waiting for analytics.js to load, oldest first.
+   */
+  getQueue(): QueuedMessage[] {
+    return this.queue.toArray().map(pending => pending.message);
+  }
+
+  /**
+   * Stop the http transport listening to the page and send the messages it's still waiting to send. Call this
+   * when a client is replaced, which useSegmentClient does for the clients it creates.
+   */
+  destroy(): Promise<void> {
+    return this.transport ? this.transport.destroy() : Promise.resolve();
+  }
+
+  /**
+   * Throw away every queued message. The promises for these messages resolve as dropped without anything being
+   * sent.
+   */
+  clearQueue(): void {
+    this.queue
+      .clear()
+      .forEach(pending =>
+        pending.resolve(this.drop(pending.message, 'cleared'))
+      );
+    this.persist();
   }
 
   /**
@@ -56,41 +487,8 @@ export class SegmentClient {
    * @param callback
    * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#page
    */
-  page(event: PageEvent = {}): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { name, category, options, properties } = event;
-      const { debug } = this.options;
-      if (this.client) {
-        if (debug) {
-          console.log('[Segment] Page', event);
-        }
-        try {
-          this.client.page(
-            category,
-            name,
-            properties,
-            {
-              ...options,
-              context: {
-                ip: this.options.anonymizeIp ? '0.0.0.0' : undefined,
-              },
-            },
-            () => {
-              if (debug) {
-                console.log('[Segment] Page succesful', event);
-              }
-              resolve();
-            }
-          );
-        } catch (error) {
-          reject(error);
-        }
-      } else {
-        this.emitter.once('initialize', () => {
-          this.page(event).then(() => resolve());
-        });
-      }
-    });
+  page(event: PageEvent = {}): Promise<CallResult> {
+    return this.dispatch({ type: EventType.page, event });
   }
 
   /**
@@ -100,40 +498,8 @@ export class SegmentClient {
    * @param traits Any extra traits about this person to update in Segment
    * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#identify
    */
-  identify(event: IdentifyEvent): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { userId, traits, options } = event;
-      const { debug } = this.options;
-      if (this.client) {
-        if (debug) {
-          console.log('[Segment] Identify', event);
-        }
-        try {
-          this.client.identify(
-            userId,
-            traits,
-            {
-              ...options,
-              context: {
-                ip: this.options.anonymizeIp ? '0.0.0.0' : undefined,
-              },
-            },
-            () => {
-              if (debug) {
-                console.log('[Segment] Identify succesful', event);
-              }
-              resolve();
-            }
-          );
-        } catch (error) {
-          reject(error);
-        }
-      } else {
-        this.emitter.once('initialize', () => {
-          this.identify(event);
-        });
-      }
-    });
+  identify(event: IdentifyEvent<UserTraits<Plan>>): Promise<CallResult> {
+    return this.dispatch({ type: EventType.identify, event });
   }
 
   /**
@@ -147,30 +513,8 @@ export class SegmentClient {
    * @param traits Any extra traits about this person to update in Segment
    * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#alias
    */
-  alias(event: AliasEvent): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { userId, previousId, options } = event;
-      const { debug } = this.options;
-      if (this.client) {
-        if (debug) {
-          console.log('[Segment] Alias', event);
-        }
-        try {
-          this.client.alias(userId, previousId, options, () => {
-            if (debug) {
-              console.log('[Segment] Alias succesful', event);
-            }
-            resolve();
-          });
-        } catch (error) {
-          reject(error);
-        }
-      } else {
-        this.emitter.once('initialize', () => {
-          this.alias(event);
-        });
-      }
-    });
+  alias(event: AliasEvent): Promise<CallResult> {
+    return this.dispatch({ type: EventType.alias, event });
   }
 
   /**
@@ -180,39 +524,41 @@ export class SegmentClient {
    * @param options
    * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#track
    */
-  track(track: TrackEvent): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { event, properties, options } = track;
-      const { debug } = this.options;
-      if (this.client) {
-        if (debug) {
-          console.log('[Segment] Track', track);
-        }
-        try {
-          this.client.track(
-            event,
-            properties,
-            {
-              ...options,
-              context: {
-                ip: this.options.anonymizeIp ? '0.0.0.0' : undefined,
-              },
-            },
-            () => {
-              if (debug) {
-                console.log('[Segment] Track sucessful', track);
-              }
-              resolve();
-            }
-          );
-        } catch (e) {
-          reject(e);
-        }
-      }
-      this.emitter.once('initialize', () => {
-        this.track(track);
-      });
-    });
+  track<Name extends EventName<Plan>>(
+    event: PlanTrackEvent<Plan, Name>
+  ): Promise<CallResult> {
+    return this.dispatch({ type: EventType.track, event });
+  }
+
+  /**
+   * Track an event once the calls for it have stopped for `ms` milliseconds, for example while the user types in a
+   * search box. Only the last call is sent, and the promises for the calls it replaced resolve with it.
+   * @param event The event to track
+   * @param ms How long to wait for more calls
+   * @param key Debounce calls separately by this key as well as the event name
+   */
+  trackDebounced<Name extends EventName<Plan>>(
+    event: PlanTrackEvent<Plan, Name>,
+    ms: number,
+    key = ''
+  ): Promise<CallResult> {
+    return this.limiter.debounce(`debounce:${event.event}:${key}`, event, ms);
+  }
+
+  /**
+   * Track an event at most once every `ms` milliseconds, for example while the user scrolls or drags a slider.
+   * The first call is sent straight away and the last call in each interval is sent at the end of it. The
+   * promises for the calls that were skipped resolve with the call sent in their place.
+   * @param event The event to track
+   * @param ms The minimum time between calls
+   * @param key Throttle calls separately by this key as well as the event name
+   */
+  trackThrottled<Name extends EventName<Plan>>(
+    event: PlanTrackEvent<Plan, Name>,
+    ms: number,
+    key = ''
+  ): Promise<CallResult> {
+    return this.limiter.throttle(`throttle:${event.event}:${key}`, event, ms);
   }
 
   /**
@@ -223,40 +569,32 @@ export class SegmentClient {
    * @param callback
    * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#group
    */
-  group(event: GroupEvent): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { groupId, options, traits } = event;
-      const { debug } = this.options;
-      if (this.client) {
-        if (debug) {
-          console.log('[Segment] Group', event);
-        }
-        try {
-          this.client.group(
-            groupId,
-            traits,
-            {
-              ...options,
-              context: {
-                ip: this.options.anonymizeIp ? '0.0.0.0' : undefined,
-              },
-            },
-            () => {
-              if (debug) {
-                console.log('[Segment] Group succesful', event);
-              }
-              resolve();
-            }
-          );
-        } catch (error) {
-          reject(error);
-        }
-      } else {
-        this.emitter.once('initialize', () => {
-          this.group(event);
-        });
-      }
-    });
+  group(event: GroupEvent<GroupTraits<Plan>>): Promise<CallResult> {
+    return this.dispatch({ type: EventType.group, event });
+  }
+
+  /**
+   * Attach click handlers to links that track an event before the browser navigates away. analytics.js
+   * delays the navigation until the event has been sent or the timeout has passed.
+   * @param elements The link elements to bind to
+   * @param event The name of the event to send to Segment
+   * @param properties Properties associated with the event
+   * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#track-link
+   */
+  trackLink(event: TrackElementEvent): Promise<CallResult> {
+    return this.dispatch({ type: 'trackLink', event });
+  }
+
+  /**
+   * Attach submit handlers to forms that track an event before the form is submitted. analytics.js
+   * delays the submission until the event has been sent or the timeout has passed.
+   * @param elements The form elements to bind to
+   * @param event The name of the event to send to Segment
+   * @param properties Properties associated with the event
+   * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#track-form
+   */
+  trackForm(event: TrackElementEvent): Promise<CallResult> {
+    return this.dispatch({ type: 'trackForm', event });
   }
 
   /**
@@ -266,55 +604,586 @@ export class SegmentClient {
    * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#ready
    */
   ready(callback?: (analytics: Analytics) => void): Promise<void> {
-    return new Promise(resolve => {
+    return new Promise((resolve, reject) => {
       if (this.client) {
         this.client.ready(() => {
           if (callback && this.client) callback(this.client);
           resolve();
         });
+      } else if (this.loadError) {
+        this.settleFailed(resolve, reject, undefined);
       } else {
-        this.emitter.once('initialize', () => {
-          this.ready(callback);
-        });
+        const onInitialize = () => {
+          this.emitter.removeListener('loadError', onLoadError);
+          this.ready(callback).then(resolve, reject);
+        };
+        const onLoadError = () => {
+          this.emitter.removeListener('initialize', onInitialize);
+          this.settleFailed(resolve, reject, undefined);
+        };
+        this.emitter.once('initialize', onInitialize);
+        this.emitter.once('loadError', onLoadError);
       }
     });
   }
 
   /**
-   * The global analytics object emits events whenever you call alias, group, identify, track or page.
+   * The global analytics object emits events whenever you call alias, group, identify, track or page. Listeners
+   * added before analytics.js has loaded are added to it once it loads, so they also hear about queued calls.
    * @param method
    * @param callback
+   * @returns A function that removes the listener
    */
-  on(
-    method: EventType,
-    callback: (
-      event: string,
-      properties?: Properties,
-      options?: SegmentOpts
-    ) => void
-  ): void {
-    if (this.client) {
-      this.client.on(method, callback);
-    } else {
-      this.emitter.once('initialize', () => {
-        this.on(method, callback);
+  on(method: EventType, callback: AnalyticsListener): () => void {
+    return this.subscribe(method, callback, callback);
+  }
+
+  /**
+   * Listen for the next call of one type only.
+   * @param method
+   * @param callback
+   * @returns A function that removes the listener if it hasn't been called yet
+   */
+  once(method: EventType, callback: AnalyticsListener): () => void {
+    const unsubscribe = this.subscribe(method, callback, (...args) => {
+      unsubscribe();
+      callback(...args);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Remove a listener added with `on` or `once`, or every listener for the method when no callback is given.
+   * @param method
+   * @param callback
+   */
+  off(method: EventType, callback?: AnalyticsListener): void {
+    this.subscriptions
+      .filter(
+        subscription =>
+          subscription.method === method &&
+          (!callback || subscription.callback === callback)
+      )
+      .forEach(subscription => this.unsubscribe(subscription));
+  }
+
+  /**
+   * Set the anonymous ID for the current user. The call is queued until analytics.js has loaded.
+   * @param id
+   * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#anonymous-id
+   */
+  setAnonymousId(id: string): Promise<CallResult> {
+    return this.dispatch({
+      type: 'setAnonymousId',
+      event: { anonymousId: id },
+    });
+  }
+
+  /**
+   * Forget the current user, for example when they log out. This clears the user ID and traits, and analytics.js
+   * generates a new anonymous ID. Like every other call it's queued until analytics.js has loaded, so calls made
+   * before it still belong to the previous user.
+   * @see https://segment.com/docs/connections/sources/catalog/libraries/website/javascript/#reset-or-log-out
+   */
+  reset(): Promise<CallResult> {
+    return this.dispatch({ type: 'reset', event: {} });
+  }
+
+  /**
+   * Return who the current user is. Once analytics.js has loaded this is read from analytics.js, so it includes a
+   * user identified on a previous visit. Until then, and while identity calls are queued, it reflects the calls
+   * made so far. An `identity` event is emitted whenever this changes.
+   */
+  user(): Identity<UserTraits<Plan>> {
+    const pending = this.queue
+      .toArray()
+      .some(({ message }) => changesIdentity(message));
+    if (!this.client || pending) {
+      return this.identity as Identity<UserTraits<Plan>>;
+    }
+    const user = this.client.user();
+    return {
+      userId: user.id() ?? undefined,
+      anonymousId: user.anonymousId() ?? undefined,
+      traits: { ...user.traits() } as Partial<UserTraits<Plan>>,
+    };
+  }
+
+  /**
+   * Send the message straight away if analytics.js has loaded, otherwise add it to the queue. If the queue is full,
+   * the message dropped by the queue policy resolves as dropped without being sent. Messages are checked against the
+   * tracking plan first, if there is one, and track calls are sampled if the event has a sample rate. Without
+   * consent, messages are queued or dropped depending on the consent policy. Resetting the user and setting the
+   * anonymous ID don't need consent, so they are never dropped for the lack of it.
+   * @param message
+   */
+  private dispatch(message: Message): Promise<CallResult> {
+    const { trackingPlan, onViolation = 'warn', debug } = this.options;
+    const queued = { ...message, timestamp: new Date(), messageId: uuid() };
+    // Validation is a development aid, so production builds skip it unless debug is on
+    const validate = debug || process.env.NODE_ENV !== 'production';
+    const violation =
+      validate && trackingPlan && validateMessage(trackingPlan, message);
+    if (violation) {
+      if (typeof onViolation === 'function') {
+        onViolation(violation);
+      } else if (onViolation === 'warn') {
+        this.logger.warn(new TrackingPlanError(violation).message);
+      } else if (onViolation === 'throw') {
+        return Promise.reject(new TrackingPlanError(violation));
+      } else {
+        this.log(
+          '[Segment] Dropping message that violates the tracking plan',
+          violation
+        );
+        return Promise.resolve(this.drop(queued, 'trackingPlan'));
+      }
+    }
+
+    if (message.type === EventType.track && !this.sample(message.event.event)) {
+      this.log('[Segment] Dropping sampled out message', message.event);
+      return Promise.resolve(this.drop(queued, 'sampling'));
+    }
+
+    const identityChange = changesIdentity(message);
+    if (
+      !this.hasConsent &&
+      this.options.consentPolicy === 'drop' &&
+      message.type !== 'reset' &&
+      message.type !== 'setAnonymousId'
+    ) {
+      this.log('[Segment] Dropping message without consent', message);
+      return Promise.resolve(this.drop(queued, 'consent'));
+    }
+
+    const identity = identityChange ? this.user() : undefined;
+    const result = this.enqueue(queued);
+    if (identity) {
+      this.identity = nextIdentity(identity, message);
+      this.emitter.emit('identity', this.user());
+    }
+    return result;
+  }
+
+  /**
+   * Send a message straight away if analytics.js has loaded and the user has consented, otherwise add it to the
+   * queue.
+   * @param queued
+   */
+  private enqueue(queued: QueuedMessage): Promise<CallResult> {
+    if (this.client && this.hasConsent) {
+      return this.send(queued);
+    }
+    return new Promise((resolve, reject) => {
+      if (this.loadError) {
+        this.settleFailed(resolve, reject, this.drop(queued, 'loadError'));
+        return;
+      }
+      const dropped = this.queue.push({
+        message: queued,
+        resolve,
+        reject,
       });
+      this.emitter.emit('queued', queued);
+      if (dropped) {
+        this.log('[Segment] Queue is full. Dropping message', dropped.message);
+        dropped.resolve(this.drop(dropped.message, 'queue'));
+      }
+      this.persist();
+    });
+  }
+
+  /**
+   * Decide whether to keep a track call for an event with a sample rate. A rate of 0.1 keeps one in ten calls.
+   * Events without a rate are always kept.
+   * @param event
+   */
+  private sample(event: string): boolean {
+    const { sampleRates } = this.options;
+    const rate = sampleRates && sampleRates[event];
+    return rate === undefined || Math.random() < rate;
+  }
+
+  /**
+   * The key used to persist undelivered messages. Each source gets its own key.
+   */
+  private get storageKey(): string {
+    const { persistKey, apiKey } = this.options;
+    return persistKey || `segment:${apiKey}:queue`;
+  }
+
+  /**
+   * Add messages persisted by a previous page load to the front of the queue so they're replayed when
+   * analytics.js loads. Nobody is waiting on these, so their promises are ignored.
+   */
+  private restore(): void {
+    if (!this.storage) return;
+    const noop = () => undefined;
+    readMessages(this.storage, this.storageKey).forEach(message => {
+      this.queue.push({ message, resolve: noop, reject: noop });
+    });
+    if (this.queue.length) {
+      this.log(`[Segment] Replaying ${this.queue.length} undelivered messages`);
     }
   }
 
   /**
-   * Set the ID for the anonymous
-   * @param id
+   * Write every message that hasn't been delivered yet to storage. This includes queued messages and
+   * messages that were sent but analytics.js hasn't called back for. Messages go through the privacy filter
+   * first, so personal information is never written to storage.
+   *
+   * Other tabs can share the storage, so their messages are kept. Only the messages this client wrote before
+   * are replaced.
    */
-  setAnonymousId(id: string): Promise<void> {
+  private persist(): void {
+    if (!this.storage) return;
+    const messages = [
+      ...Array.from(this.inflight.values()),
+      ...this.queue.toArray().map(pending => pending.message),
+    ];
+    const ids = new Set(messages.map(message => message.messageId));
+    const others = readMessages(this.storage, this.storageKey).filter(
+      message =>
+        !ids.has(message.messageId) && !this.persisted.has(message.messageId)
+    );
+    this.persisted = ids;
+    writeMessages(this.storage, this.storageKey, [
+      ...others,
+      ...messages.map(message => {
+        const redacted =
+          this.redact && isEventMessage(message) && this.redact(message);
+        return redacted ? { ...message, ...redacted } : message;
+      }),
+    ]);
+  }
+
+  /**
+   * Create the privacy filter. Like the consent filter, it runs after every other middleware so nothing added
+   * by middleware slips past it. What it removed is logged when debug is on.
+   * @param options
+   */
+  private createPrivacyFilter(options: PrivacyOptions): Middleware {
+    return privacyFilter({
+      ...options,
+      onRedact: (message, redactions) => {
+        this.log(
+          `[Segment] Removed personal information from ${labels[message.type]}`,
+          redactions
+        );
+        if (options.onRedact) options.onRedact(message, redactions);
+      },
+    });
+  }
+
+  /**
+   * Resolve once the user has consented to sending calls, see hasConsent.
+   */
+  private waitForConsent(): Promise<void> {
     return new Promise(resolve => {
-      if (this.client) {
-        this.client.setAnonymousId(id);
-      } else {
-        this.emitter.once('initialize', () => {
-          this.setAnonymousId(id);
+      if (this.hasConsent) {
+        resolve();
+        return;
+      }
+      const onConsent = () => {
+        if (!this.hasConsent) return;
+        this.emitter.removeListener('consent', onConsent);
+        resolve();
+      };
+      this.emitter.on('consent', onConsent);
+    });
+  }
+
+  /**
+   * Load the analytics.js snippet. If it hasn't loaded within the load timeout, the client fails so calls
+   * don't wait forever. It's still initialized if the script finishes loading later.
+   */
+  private loadSnippet(): Promise<void> {
+    const { loadTimeout = getMaxLoadTime(this.options) } = this.options;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.fail(
+          new ScriptLoadError(
+            getScriptUrl(this.options),
+            'timeout',
+            loadTimeout
+          )
+        );
+        resolve();
+      }, loadTimeout);
+
+      loadAnalytics({
+        ...this.options,
+        isolated: !!this.options.name,
+      }).then(
+        analytics => {
+          clearTimeout(timer);
+          if (analytics) {
+            this.initialize(analytics);
+          } else {
+            this.fail(new Error('analytics.js could not be loaded'));
+          }
           resolve();
-        });
+        },
+        error => {
+          clearTimeout(timer);
+          this.fail(error);
+          resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * Initialize the client with the http transport instead of analytics.js.
+   */
+  private loadHttpTransport(): void {
+    const { apiKey, apiHost } = this.options;
+    if (typeof window === 'undefined') {
+      this.fail(new Error('The http transport can only be used in a browser'));
+      return;
+    }
+    this.transport = new BrowserAnalytics({
+      writeKey: apiKey,
+      host: apiHost,
+      logger: this.options.logger,
+    });
+    this.initialize(this.transport);
+  }
+
+  private subscribe(
+    method: EventType,
+    callback: AnalyticsListener,
+    listener: AnalyticsListener
+  ): () => void {
+    const subscription = { method, callback, listener };
+    this.subscriptions.push(subscription);
+    if (this.client) this.client.on(method, listener);
+    return () => this.unsubscribe(subscription);
+  }
+
+  private unsubscribe(subscription: Subscription): void {
+    const index = this.subscriptions.indexOf(subscription);
+    if (index === -1) return;
+    this.subscriptions.splice(index, 1);
+    if (this.client)
+      this.client.off(subscription.method, subscription.listener);
+  }
+
+  /**
+   * Write a debug message, if debug is on.
+   * @param message
+   * @param details
+   */
+  private log(message: string, ...details: unknown[]): void {
+    if (this.options.debug) this.logger.debug(message, ...details);
+  }
+
+  /**
+   * Settle a call that can't be sent because analytics.js failed to load.
+   * @param resolve
+   * @param reject
+   * @param value What to resolve with when the load error policy is to resolve
+   */
+  private settleFailed<T>(
+    resolve: (value: T) => void,
+    reject: (error: Error) => void,
+    value: T
+  ): void {
+    const { loadErrorPolicy = 'resolve' } = this.options;
+    if (loadErrorPolicy === 'reject' && this.loadError) {
+      reject(this.loadError);
+    } else {
+      resolve(value);
+    }
+  }
+
+  /**
+   * The result of a call once it has been sent, timed out or dropped.
+   * @param queued
+   * @param status
+   * @param reason Why the call was dropped
+   */
+  private result(
+    queued: QueuedMessage,
+    status: CallResult['status'],
+    reason?: DropReason
+  ): CallResult {
+    return {
+      status,
+      messageId: queued.messageId,
+      duration: Date.now() - queued.timestamp.getTime(),
+      reason,
+    };
+  }
+
+  /**
+   * Emit a `dropped` event for a call that won't be sent and return its result.
+   * @param queued
+   * @param reason
+   */
+  private drop(queued: QueuedMessage, reason: DropReason): CallResult {
+    this.emitter.emit('dropped', queued, reason);
+    return this.result(queued, 'dropped', reason);
+  }
+
+  /**
+   * Send every queued message to analytics.js in the order they were called.
+   */
+  private flush(): void {
+    if (!this.client || !this.hasConsent) return;
+    let pending = this.queue.shift();
+    while (pending) {
+      this.send(pending.message).then(pending.resolve, pending.reject);
+      pending = this.queue.shift();
+    }
+  }
+
+  /**
+   * How long to wait for a callback before a call times out. analytics.js calls back after `timeout`, but
+   * HttpAnalytics only calls back once the batch has been sent, so the default allows for its batching and retries.
+   * @param client
+   */
+  private getCallbackTimeout(client: Analytics): number {
+    const { timeout = 200, callbackTimeout } = this.options;
+    if (callbackTimeout !== undefined) return callbackTimeout;
+    if (client instanceof HttpAnalytics) return client.maxCallbackDelay + 1000;
+    return timeout + 1000;
+  }
+
+  /**
+   * Call the analytics.js method for the message. The promise resolves when analytics.js calls back, or as timed
+   * out if it hasn't called back within the callback timeout.
+   *
+   * When persistence is enabled the message is kept in storage until then, and the original timestamp and
+   * message ID are sent so a replayed message can be de-duplicated by Segment.
+   * @param message
+   */
+  private send(queued: QueuedMessage): Promise<CallResult> {
+    return new Promise((resolve, reject) => {
+      const client = this.client as Analytics;
+      const callbackTimeout = this.getCallbackTimeout(client);
+      const message = isEventMessage(queued)
+        ? applyMiddleware([...this.middleware, ...this.filters], queued)
+        : queued;
+
+      if (!message) {
+        this.log('[Segment] Message dropped by middleware', queued.event);
+        resolve(this.drop(queued, 'middleware'));
+        return;
+      }
+
+      const label = labels[message.type];
+      const metadata = this.storage
+        ? { messageId: queued.messageId, timestamp: queued.timestamp }
+        : {};
+      // A late callback can't change the result, but it still means the message was delivered
+      const timer = unref(
+        setTimeout(() => {
+          this.log(`[Segment] ${label} timed out`, message.event);
+          this.emitter.emit('timeout', queued);
+          resolve(this.result(queued, 'timeout'));
+        }, callbackTimeout)
+      );
+      const callback = () => {
+        clearTimeout(timer);
+        this.emitter.emit('delivered', queued);
+        this.log(`[Segment] ${label} succesful`, message.event);
+        if (this.inflight.delete(queued.messageId)) {
+          this.persist();
+        }
+        resolve(this.result(queued, 'sent'));
+      };
+
+      if (this.storage) {
+        this.inflight.set(queued.messageId, queued);
+        this.persist();
+      }
+
+      this.log(`[Segment] ${label}`, message.event);
+      this.emitter.emit('sent', queued, message);
+
+      try {
+        switch (message.type) {
+          case EventType.page: {
+            const { category, name, properties, options } = message.event;
+            client.page(
+              category,
+              name,
+              properties,
+              { ...options, ...metadata },
+              callback
+            );
+            break;
+          }
+          case EventType.identify: {
+            const { userId, traits, options } = message.event;
+            client.identify(
+              userId,
+              traits,
+              { ...options, ...metadata },
+              callback
+            );
+            break;
+          }
+          case EventType.track: {
+            const { event, properties, options } = message.event;
+            client.track(
+              event,
+              properties,
+              { ...options, ...metadata },
+              callback
+            );
+            break;
+          }
+          case EventType.group: {
+            const { groupId, traits, options } = message.event;
+            client.group(
+              groupId,
+              traits,
+              { ...options, ...metadata },
+              callback
+            );
+            break;
+          }
+          case EventType.alias: {
+            const { userId, previousId, options } = message.event;
+            client.alias(
+              userId,
+              previousId,
+              { ...options, ...metadata },
+              callback
+            );
+            break;
+          }
+          case 'trackLink': {
+            const { elements, event, properties } = message.event;
+            client.trackLink(elements, event, properties);
+            callback();
+            break;
+          }
+          case 'trackForm': {
+            const { elements, event, properties } = message.event;
+            client.trackForm(elements, event, properties);
+            callback();
+            break;
+          }
+          case 'reset': {
+            client.reset();
+            callback();
+            break;
+          }
+          case 'setAnonymousId': {
+            client.setAnonymousId(message.event.anonymousId);
+            callback();
+            break;
+          }
+        }
+      } catch (error) {
+        clearTimeout(timer);
+        if (this.inflight.delete(queued.messageId)) {
+          this.persist();
+        }
+        reject(error);
       }
     });
   }
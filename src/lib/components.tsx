@@ -0,0 +1,86 @@
+import React, { Children, cloneElement, useRef } from 'react';
+import { useSegment } from './provider';
+import {
+  TrackOnViewOptions,
+  useIdentify,
+  useTrackOnMount,
+  useTrackOnView,
+} from './hooks';
+import { IdentifyEvent, TrackEvent } from './types';
+import { logFailure } from './logger';
+
+interface TrackProps {
+  event: TrackEvent;
+  children?: React.ReactNode;
+}
+
+/**
+ * Track an event when this component mounts. The children are rendered as they are.
+ * @param props
+ */
+export function TrackOnMount(props: TrackProps): JSX.Element {
+  const { event, children } = props;
+  useTrackOnMount(event);
+  return <>{children}</>;
+}
+
+interface TrackOnViewProps extends TrackProps, TrackOnViewOptions {
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Track an event when the children enter the viewport. The children are wrapped in a div so they can be
+ * observed, which you can style with `className` and `style`.
+ * @param props
+ */
+export function TrackOnView(props: TrackOnViewProps): JSX.Element {
+  const { event, threshold, once, className, style, children } = props;
+  const ref = useRef<HTMLDivElement>(null);
+  useTrackOnView(ref, event, { threshold, once });
+
+  return (
+    <div ref={ref} className={className} style={style}>
+      {children}
+    </div>
+  );
+}
+
+interface TrackClickProps {
+  event: TrackEvent;
+  children: React.ReactElement;
+}
+
+/**
+ * Track an event when the child is clicked. The child's own onClick handler is still called. This doesn't
+ * delay navigation, so use useTrackLink for links that leave the page.
+ * @param props
+ */
+export function TrackClick(props: TrackClickProps): JSX.Element {
+  const { event, children } = props;
+  const client = useSegment();
+  const child = Children.only(children);
+
+  return cloneElement(child, {
+    onClick: (e: React.MouseEvent) => {
+      if (child.props.onClick) child.props.onClick(e);
+      logFailure(client, client.track(event));
+    },
+  });
+}
+
+interface IdentifyProps {
+  event: IdentifyEvent | null;
+  children?: React.ReactNode;
+}
+
+/**
+ * Identify the user whenever they change, see useIdentify. Render this in your authenticated shell with the
+ * current user, or null once they've logged out.
+ * @param props
+ */
+export function Identify(props: IdentifyProps): JSX.Element {
+  const { event, children } = props;
+  useIdentify(event);
+  return <>{children}</>;
+}
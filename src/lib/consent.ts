@@ -0,0 +1,90 @@
+import { Middleware } from './middleware';
+
+/**
+ * The categories a user can consent to. Each destination belongs to one of them.
+ */
+export type ConsentCategory = 'analytics' | 'advertising' | 'functional';
+
+/**
+ * Which categories the user has consented to. A missing category hasn't been granted.
+ */
+export type Consent = Partial<Record<ConsentCategory, boolean>>;
+
+/**
+ * What to do with calls made before the user has consented. They can be queued until consent is granted, or dropped.
+ */
+export type ConsentPolicy = 'queue' | 'drop';
+
+/**
+ * Whether the user has consented to analytics.js being loaded and calls being sent. That needs the analytics
+ * category or, when destinations are mapped to categories, the category of at least one destination. Without
+ * the analytics category, calls are then only sent to the mapped destinations the user has consented to.
+ * @param consent
+ * @param categories A map of destination names to the category they belong to
+ */
+export function isConsentGranted(
+  consent: Consent,
+  categories?: Record<string, ConsentCategory>
+): boolean {
+  if (consent.analytics) return true;
+  return (
+    !!categories &&
+    Object.keys(categories).some(
+      destination => consent[categories[destination]]
+    )
+  );
+}
+
+/**
+ * Build the `integrations` option for the consent. Every destination in a category the user hasn't
+ * consented to is disabled. Without consent to the analytics category, every destination is disabled with
+ * `All: false` and only the destinations the user has consented to are enabled.
+ * @param consent
+ * @param categories A map of destination names to the category they belong to
+ */
+export function consentIntegrations(
+  consent: Consent,
+  categories: Record<string, ConsentCategory>
+): Record<string, boolean> {
+  const integrations: Record<string, boolean> = consent.analytics
+    ? {}
+    : { All: false };
+  Object.keys(categories).forEach(destination => {
+    const granted = !!consent[categories[destination]];
+    if (!granted || !consent.analytics) {
+      integrations[destination] = granted;
+    }
+  });
+  return integrations;
+}
+
+/**
+ * Built-in middleware that disables destinations the user hasn't consented to. Destinations the app has
+ * disabled itself stay disabled.
+ * @param getConsent Returns the current consent when a message is sent
+ * @param categories A map of destination names to the category they belong to
+ */
+export function consentMiddleware(
+  getConsent: () => Consent,
+  categories: Record<string, ConsentCategory>
+): Middleware {
+  return message => {
+    const { options = {} } = message.event;
+    const integrations: Record<string, boolean> = {
+      ...options.integrations,
+    };
+    const allowed = consentIntegrations(getConsent(), categories);
+    Object.keys(allowed).forEach(destination => {
+      if (!allowed[destination] || integrations[destination] !== false) {
+        integrations[destination] = allowed[destination];
+      }
+    });
+    return {
+      ...message,
+      event: {
+        ...message.event,
+        options: { ...options, integrations },
+      },
+    } as typeof message;
+  };
+}
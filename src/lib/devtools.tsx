@@ -0,0 +1,309 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import { useSegment } from './provider';
+import { ClientEvent, ClientEvents, DropReason } from './events';
+import { EventType, Identity, Message, QueuedMessage } from './types';
+
+/**
+ * Where a call is in its life. It's sending once it has been passed to analytics.js, and sent once analytics.js
+ * has called back.
+ */
+export type DevtoolsStatus =
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'timeout'
+  | 'dropped';
+
+interface Entry {
+  id: string;
+  type: Message['type'];
+  name: string;
+  payload: unknown;
+  status: DevtoolsStatus;
+  reason?: DropReason;
+  calledAt: Date;
+  duration?: number;
+}
+
+type Action =
+  | {
+      type: 'update';
+      message: QueuedMessage;
+      status: DevtoolsStatus;
+      payload?: unknown;
+      reason?: DropReason;
+    }
+  | { type: 'clear' };
+
+interface State {
+  entries: Entry[];
+  maxEntries: number;
+}
+
+/**
+ * The name shown for a call, like the event name of a track call or the user ID of an identify call.
+ * @param message
+ */
+function getName(message: Message): string {
+  switch (message.type) {
+    case EventType.track:
+    case 'trackLink':
+    case 'trackForm':
+      return message.event.event;
+    case EventType.page:
+      return message.event.name || message.event.category || '';
+    case EventType.identify:
+    case EventType.alias:
+      return message.event.userId;
+    case EventType.group:
+      return message.event.groupId;
+    case 'setAnonymousId':
+      return message.event.anonymousId;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Format a payload for display. Elements from trackLink and trackForm calls are shown by their tag name, because
+ * they can't be serialized.
+ * @param value
+ */
+function stringify(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item) =>
+      typeof Element !== 'undefined' && item instanceof Element
+        ? `<${item.tagName.toLowerCase()}>`
+        : item,
+    2
+  );
+}
+
+function reducer(state: State, action: Action): State {
+  if (action.type === 'clear') {
+    return { ...state, entries: [] };
+  }
+
+  const { message, status, payload = message.event, reason } = action;
+  const existing = state.entries.find(entry => entry.id === message.messageId);
+
+  if (existing) {
+    // A late callback still counts as sent, but nothing moves a call back to an earlier status
+    if (existing.status === 'sent' || existing.status === 'dropped') {
+      return state;
+    }
+    const settled = status !== 'queued' && status !== 'sending';
+    const entry: Entry = {
+      ...existing,
+      status,
+      reason,
+      payload: status === 'sending' ? payload : existing.payload,
+      duration: settled
+        ? Date.now() - existing.calledAt.getTime()
+        : existing.duration,
+    };
+    return {
+      ...state,
+      entries: state.entries.map(item => (item === existing ? entry : item)),
+    };
+  }
+
+  const entry: Entry = {
+    id: message.messageId,
+    type: message.type,
+    name: getName(message),
+    payload,
+    status,
+    reason,
+    calledAt: message.timestamp,
+    duration: status === 'dropped' ? 0 : undefined,
+  };
+  return {
+    ...state,
+    entries: [entry, ...state.entries].slice(0, state.maxEntries),
+  };
+}
+
+const colors: Record<DevtoolsStatus, string> = {
+  queued: '#8a6d00',
+  sending: '#0b5cad',
+  sent: '#1a7f37',
+  timeout: '#b35900',
+  dropped: '#b3261e',
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  toggle: {
+    position: 'fixed',
+    right: 16,
+    bottom: 16,
+    zIndex: 2147483647,
+    padding: '6px 10px',
+    border: '1px solid #ccc',
+    borderRadius: 4,
+    background: '#fff',
+    font: '12px monospace',
+    cursor: 'pointer',
+  },
+  panel: {
+    position: 'fixed',
+    right: 16,
+    bottom: 16,
+    zIndex: 2147483647,
+    width: 480,
+    maxWidth: 'calc(100vw - 32px)',
+    maxHeight: '60vh',
+    overflow: 'auto',
+    border: '1px solid #ccc',
+    borderRadius: 4,
+    background: '#fff',
+    color: '#222',
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.15)',
+    font: '12px monospace',
+  },
+  section: { padding: 8, borderBottom: '1px solid #eee' },
+  pre: { margin: '4px 0 0', whiteSpace: 'pre-wrap', wordBreak: 'break-all' },
+};
+
+interface SegmentDevtoolsProps {
+  /**
+   * The name of the provider to show, if it isn't the default one.
+   */
+  name?: string;
+  initialOpen?: boolean;
+  /**
+   * How many calls to keep in the timeline. Defaults to 100.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * An overlay that shows every call made with the client as it happens, so instrumentation can be checked without
+ * opening the browser devtools. Each call in the timeline shows its payload, its status and how long it took to
+ * be sent or dropped, along with the current user and the calls waiting in the queue. It's meant for development
+ * and QA builds, so render it conditionally:
+ *
+ * {process.env.NODE_ENV !== 'production' && <SegmentDevtools />}
+ * @param props
+ */
+export function SegmentDevtools(props: SegmentDevtoolsProps): JSX.Element {
+  const { name, initialOpen = false, maxEntries = 100 } = props;
+  const client = useSegment(name);
+  const [open, setOpen] = useState(initialOpen);
+  const [filter, setFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<DevtoolsStatus | ''>('');
+  const [{ entries }, dispatch] = useReducer(reducer, {
+    entries: [],
+    maxEntries,
+  });
+  const [identity, setIdentity] = useState<Identity>(() => client.user());
+  const [queue, setQueue] = useState(() => client.getQueue());
+
+  useEffect(() => {
+    const update = (
+      status: DevtoolsStatus,
+      message: QueuedMessage,
+      payload?: unknown,
+      reason?: DropReason
+    ) => {
+      dispatch({ type: 'update', message, status, payload, reason });
+      setQueue(client.getQueue());
+    };
+    const listeners: Partial<ClientEvents> = {
+      queued: message => update('queued', message),
+      sent: (queued, message) => update('sending', queued, message.event),
+      delivered: message => update('sent', message),
+      timeout: message => update('timeout', message),
+      dropped: (message, reason) =>
+        update('dropped', message, undefined, reason),
+      identity: () => setIdentity(client.user()),
+    };
+    const events = Object.keys(listeners) as ClientEvent[];
+    events.forEach(event => client.emitter.on(event, listeners[event]!));
+    return () => {
+      events.forEach(event =>
+        client.emitter.removeListener(event, listeners[event]!)
+      );
+    };
+  }, [client]);
+
+  if (!open) {
+    return (
+      <button type="button" style={styles.toggle} onClick={() => setOpen(true)}>
+        Segment ({entries.length})
+      </button>
+    );
+  }
+
+  const search = filter.toLowerCase();
+  const visible = entries.filter(
+    entry =>
+      (!statusFilter || entry.status === statusFilter) &&
+      (!search ||
+        entry.name.toLowerCase().includes(search) ||
+        entry.type.toLowerCase().includes(search))
+  );
+
+  return (
+    <div style={styles.panel} role="dialog" aria-label="Segment devtools">
+      <div style={{ ...styles.section, display: 'flex', gap: 8 }}>
+        <strong style={{ flex: 1 }}>Segment · {client.status}</strong>
+        <button type="button" onClick={() => dispatch({ type: 'clear' })}>
+          Clear
+        </button>
+        <button type="button" onClick={() => setOpen(false)}>
+          Close
+        </button>
+      </div>
+      <div style={styles.section}>
+        <div>User ID: {identity.userId || '-'}</div>
+        <div>Anonymous ID: {identity.anonymousId || '-'}</div>
+        <pre style={styles.pre}>{stringify(identity.traits)}</pre>
+      </div>
+      <div style={styles.section}>
+        Queue: {queue.length ? '' : 'empty'}
+        {queue.map(message => (
+          <div key={message.messageId}>
+            {message.type} {getName(message)}
+          </div>
+        ))}
+      </div>
+      <div style={{ ...styles.section, display: 'flex', gap: 8 }}>
+        <input
+          type="search"
+          placeholder="Filter calls"
+          value={filter}
+          onChange={event => setFilter(event.target.value)}
+          style={{ flex: 1 }}
+        />
+        <select
+          value={statusFilter}
+          onChange={event =>
+            setStatusFilter(event.target.value as DevtoolsStatus | '')
+          }
+        >
+          <option value="">All</option>
+          {Object.keys(colors).map(status => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+      </div>
+      {visible.map(entry => (
+        <details key={entry.id} style={styles.section}>
+          <summary>
+            {entry.calledAt.toLocaleTimeString()} {entry.type} {entry.name}{' '}
+            <span style={{ color: colors[entry.status] }}>
+              {entry.status}
+              {entry.reason ? ` (${entry.reason})` : ''}
+            </span>
+            {entry.duration !== undefined ? ` ${entry.duration}ms` : ''}
+          </summary>
+          <pre style={styles.pre}>{stringify(entry.payload)}</pre>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { EventEmitter } from 'events';
+import { Consent } from './consent';
+import { Analytics, Identity, Message, QueuedMessage } from './types';
+
+/**
+ * Why a call wasn't sent, given with the `dropped` event.
+ */
+export type DropReason =
+  | 'trackingPlan'
+  | 'sampling'
+  | 'consent'
+  | 'queue'
+  | 'middleware'
+  | 'loadError'
+  | 'cleared';
+
+/**
+ * The events emitted by `client.emitter` and the arguments their listeners are called with.
+ */
+export interface ClientEvents {
+  /**
+   * Loading analytics.js has started.
+   */
+  loadStart: () => void;
+  /**
+   * analytics.js has loaded, or the client was given its own `analytics`.
+   */
+  loaded: (analytics: Analytics) => void;
+  /**
+   * The same as `loaded`, kept for existing listeners.
+   */
+  initialize: () => void;
+  loadError: (error: Error) => void;
+  consent: (consent: Consent) => void;
+  identity: (identity: Identity) => void;
+  /**
+   * A call is waiting for analytics.js to load or for consent.
+   */
+  queued: (message: QueuedMessage) => void;
+  /**
+   * A call has been passed to analytics.js. The second message is the call after middleware has run.
+   */
+  sent: (queued: QueuedMessage, message: Message) => void;
+  /**
+   * analytics.js has called back for a call.
+   */
+  delivered: (message: QueuedMessage) => void;
+  /**
+   * analytics.js hasn't called back within `callbackTimeout`.
+   */
+  timeout: (message: QueuedMessage) => void;
+  /**
+   * A call will never be sent.
+   */
+  dropped: (message: QueuedMessage, reason: DropReason) => void;
+}
+
+export type ClientEvent = keyof ClientEvents;
+
+/**
+ * An EventEmitter that checks event names and listener arguments against ClientEvents.
+ */
+export interface ClientEmitter extends EventEmitter {
+  on<Event extends ClientEvent>(
+    event: Event,
+    listener: ClientEvents[Event]
+  ): this;
+  once<Event extends ClientEvent>(
+    event: Event,
+    listener: ClientEvents[Event]
+  ): this;
+  off<Event extends ClientEvent>(
+    event: Event,
+    listener: ClientEvents[Event]
+  ): this;
+  removeListener<Event extends ClientEvent>(
+    event: Event,
+    listener: ClientEvents[Event]
+  ): this;
+  emit<Event extends ClientEvent>(
+    event: Event,
+    ...args: Parameters<ClientEvents[Event]>
+  ): boolean;
+}
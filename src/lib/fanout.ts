@@ -0,0 +1,40 @@
+import { CallResult, SegmentClient } from './client';
+import {
+  AliasEvent,
+  GroupEvent,
+  IdentifyEvent,
+  PageEvent,
+  TrackEvent,
+} from './types';
+
+/**
+ * The calls that can be sent to several clients at once. Each one resolves once every client has resolved, with the
+ * result from each client in the same order as the clients.
+ */
+export interface FanOut {
+  page(event?: PageEvent): Promise<CallResult[]>;
+  identify(event: IdentifyEvent): Promise<CallResult[]>;
+  track(event: TrackEvent): Promise<CallResult[]>;
+  group(event: GroupEvent): Promise<CallResult[]>;
+  alias(event: AliasEvent): Promise<CallResult[]>;
+  reset(): Promise<CallResult[]>;
+}
+
+/**
+ * Send every call to each of the clients, for example to track an event in a product and a marketing source.
+ * Each client still applies its own tracking plan, middleware and consent.
+ * @param clients
+ */
+export function fanOut(clients: SegmentClient[]): FanOut {
+  const all = (call: (client: SegmentClient) => Promise<CallResult>) =>
+    Promise.all(clients.map(call));
+
+  return {
+    page: event => all(client => client.page(event)),
+    identify: event => all(client => client.identify(event)),
+    track: event => all(client => client.track(event)),
+    group: event => all(client => client.group(event)),
+    alias: event => all(client => client.alias(event)),
+    reset: () => all(client => client.reset()),
+  };
+}
@@ -0,0 +1,421 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { useSegment } from './provider';
+import {
+  AnalyticsListener,
+  EventType,
+  GroupEvent,
+  GroupTraits,
+  Identity,
+  IdentifyEvent,
+  TrackEvent,
+  TrackingPlan,
+  UserTraits,
+} from './types';
+import { Consent } from './consent';
+import { ClientStatus } from './client';
+import { ClientEvent } from './events';
+import { logFailure } from './logger';
+import { PageTrackingOptions, useClientPageTracking } from './pages';
+
+/**
+ * Resolve after the given number of milliseconds.
+ * @param ms
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Keep a ref pointing to the latest value so listeners that are only bound once can read it.
+ * @param value
+ */
+function useLatest<T>(value: T): RefObject<T> {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+}
+
+/**
+ * Compare two JSON-like values by their contents. Object keys can be in any order.
+ * @param a
+ * @param b
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  if (keys.length !== Object.keys(right).length) return false;
+  return keys.every(
+    key =>
+      Object.prototype.hasOwnProperty.call(right, key) &&
+      isEqual(left[key], right[key])
+  );
+}
+
+/**
+ * Track an event whenever the link is clicked. If clicking the link would navigate away from the page,
+ * the navigation is delayed until the event has been sent or the timeout has passed.
+ *
+ * The listener is bound to the window so it runs after any React handlers. If a handler has already
+ * prevented the default action, for example a client-side router link, the event is tracked without
+ * touching the navigation. The listener is removed when the component unmounts.
+ * @param ref A ref to the link element
+ * @param event The event to track when the link is clicked
+ * @param timeout The maximum time to wait before navigating
+ */
+export function useTrackLink(
+  ref: RefObject<HTMLAnchorElement>,
+  event: TrackEvent,
+  timeout = 300
+): void {
+  const client = useSegment();
+  const latest = useLatest(event);
+
+  useEffect(() => {
+    function onClick(e: MouseEvent): void {
+      const link = ref.current;
+      if (!link || !latest.current) return;
+      if (!(e.target instanceof Node) || !link.contains(e.target)) return;
+
+      // A call that fails mustn't stop the navigation
+      const tracked = Promise.race([
+        client.track(latest.current).catch(() => undefined),
+        delay(timeout),
+      ]);
+      const href = link.getAttribute('href');
+      // Links that open in another tab or frame, or download a file, don't leave the page
+      const staysOnPage =
+        (!!link.target && link.target !== '_self') ||
+        link.hasAttribute('download') ||
+        e.metaKey ||
+        e.ctrlKey ||
+        e.shiftKey ||
+        e.button === 1;
+
+      if (!href || staysOnPage || e.defaultPrevented) return;
+
+      e.preventDefault();
+      tracked.then(() => {
+        window.location.href = href;
+      });
+    }
+
+    window.addEventListener('click', onClick);
+    return () => window.removeEventListener('click', onClick);
+  }, [client, latest, ref, timeout]);
+}
+
+/**
+ * Submit a form the way the button that was pressed would have. `form.submit()` leaves out the button's name and
+ * value, so they're added in a hidden input while the form is submitted.
+ * @param form
+ * @param submitter The button that submitted the form, if the browser knows it
+ */
+function submit(form: HTMLFormElement, submitter?: HTMLElement | null): void {
+  const name = submitter && submitter.getAttribute('name');
+  if (!submitter || !name) {
+    form.submit();
+    return;
+  }
+  const input = document.createElement('input');
+  input.type = 'hidden';
+  input.name = name;
+  input.value = (submitter as HTMLButtonElement).value;
+  form.appendChild(input);
+  form.submit();
+  form.removeChild(input);
+}
+
+/**
+ * Track an event whenever the form is submitted. The submission is delayed until the event has been sent
+ * or the timeout has passed.
+ *
+ * The listener is bound to the window so it runs after any React handlers. If a handler has already
+ * prevented the default action the event is tracked without submitting the form. The name and value of the
+ * button that submitted the form are kept. The listener is removed when the component unmounts.
+ * @param ref A ref to the form element
+ * @param event The event to track when the form is submitted
+ * @param timeout The maximum time to wait before submitting
+ */
+export function useTrackForm(
+  ref: RefObject<HTMLFormElement>,
+  event: TrackEvent,
+  timeout = 300
+): void {
+  const client = useSegment();
+  const latest = useLatest(event);
+
+  useEffect(() => {
+    function onSubmit(e: Event): void {
+      const form = ref.current;
+      if (!form || !latest.current || e.target !== form) return;
+
+      // A call that fails mustn't stop the form from being submitted
+      const tracked = Promise.race([
+        client.track(latest.current).catch(() => undefined),
+        delay(timeout),
+      ]);
+
+      if (e.defaultPrevented) return;
+
+      e.preventDefault();
+      const { submitter } = e as Event & { submitter?: HTMLElement | null };
+      tracked.then(() => submit(form, submitter));
+    }
+
+    window.addEventListener('submit', onSubmit);
+    return () => window.removeEventListener('submit', onSubmit);
+  }, [client, latest, ref, timeout]);
+}
+
+/**
+ * Read and update the user's consent. The component re-renders whenever the consent changes. Updating consent
+ * only changes the categories you pass in, so you can grant or revoke them one at a time:
+ *
+ * const { consent, setConsent } = useConsent();
+ * setConsent({ advertising: false });
+ */
+export function useConsent(): {
+  consent: Consent | undefined;
+  setConsent: (consent: Consent) => void;
+} {
+  const client = useSegment();
+  const [consent, setState] = useState(() => client.getConsent());
+
+  useEffect(() => {
+    const onConsent = () => setState(client.getConsent());
+    onConsent();
+    client.emitter.on('consent', onConsent);
+    return () => {
+      client.emitter.removeListener('consent', onConsent);
+    };
+  }, [client]);
+
+  const setConsent = useCallback((value: Consent) => client.setConsent(value), [
+    client,
+  ]);
+
+  return { consent, setConsent };
+}
+
+/**
+ * Return who the current user is. The component re-renders when the user is identified or reset, when the
+ * anonymous ID changes and when analytics.js loads a user identified on a previous visit.
+ */
+export function useIdentity<
+  Plan extends TrackingPlan = TrackingPlan
+>(): Identity<UserTraits<Plan>> {
+  const client = useSegment<Plan>();
+  const [identity, setIdentity] = useState(() => client.user());
+
+  useEffect(() => {
+    const onIdentity = () => setIdentity(client.user());
+    onIdentity();
+    client.emitter.on('identity', onIdentity);
+    return () => {
+      client.emitter.removeListener('identity', onIdentity);
+    };
+  }, [client]);
+
+  return identity;
+}
+
+/**
+ * Identify the user whenever they change. Pass null while nobody is logged in. The user is only identified again
+ * when the user ID or traits change, so this can be called on every render. When the user logs out and the event
+ * becomes null, the client is reset:
+ *
+ * useIdentify(user ? { userId: user.id, traits: { email: user.email } } : null);
+ * @param event The identify call for the current user, or null
+ */
+export function useIdentify<Plan extends TrackingPlan = TrackingPlan>(
+  event: IdentifyEvent<UserTraits<Plan>> | null
+): void {
+  const client = useSegment<Plan>();
+  const last = useRef<IdentifyEvent<UserTraits<Plan>> | null>(null);
+
+  useEffect(() => {
+    const previous = last.current;
+    // The call counts as sent straight away so re-renders don't repeat it, but a call that fails is forgotten
+    // so it's retried on the next render
+    const retry = () => {
+      if (last.current === event) last.current = previous;
+    };
+    if (event) {
+      if (
+        previous &&
+        previous.userId === event.userId &&
+        isEqual(previous.traits, event.traits)
+      ) {
+        return;
+      }
+      last.current = event;
+      logFailure(client, client.identify(event), retry);
+    } else if (previous) {
+      last.current = null;
+      logFailure(client, client.reset(), retry);
+    }
+  });
+}
+
+/**
+ * Associate the user with a group whenever it changes. Pass null when there is no group. Like useIdentify, the
+ * group call is only sent again when the group ID or traits change.
+ * @param event The group call for the current group, or null
+ */
+export function useGroup<Plan extends TrackingPlan = TrackingPlan>(
+  event: GroupEvent<GroupTraits<Plan>> | null
+): void {
+  const client = useSegment<Plan>();
+  const last = useRef<GroupEvent<GroupTraits<Plan>> | null>(null);
+
+  useEffect(() => {
+    const previous = last.current;
+    if (!event) {
+      last.current = null;
+      return;
+    }
+    if (
+      previous &&
+      previous.groupId === event.groupId &&
+      isEqual(previous.traits, event.traits)
+    ) {
+      return;
+    }
+    last.current = event;
+    logFailure(client, client.group(event), () => {
+      if (last.current === event) last.current = previous;
+    });
+  });
+}
+
+/**
+ * Load analytics.js on demand. Use this with `autoload={false}` to load it later, for example after a cookie
+ * banner, after the first interaction or when the browser is idle. Calls are queued until then. The component
+ * re-renders as the status changes.
+ */
+export function useSegmentLoader(): {
+  load: () => Promise<void>;
+  status: ClientStatus;
+} {
+  const client = useSegment();
+  const [status, setStatus] = useState(client.status);
+
+  useEffect(() => {
+    const events: ClientEvent[] = ['loadStart', 'loaded', 'loadError'];
+    const onChange = () => setStatus(client.status);
+    onChange();
+    events.forEach(event => client.emitter.on(event, onChange));
+    return () => {
+      events.forEach(event => client.emitter.removeListener(event, onChange));
+    };
+  }, [client]);
+
+  const load = useCallback(() => client.load(), [client]);
+
+  return { load, status };
+}
+
+/**
+ * Track page views as the user navigates. By default the path is read from the browser history, which works with
+ * most client-side routers. Pass `path` to use your router's location instead, and `getPageEvent` to name pages:
+ *
+ * const { pathname } = useLocation();
+ * usePageTracking({ path: pathname, getPageEvent: path => ({ name: titles[path] }) });
+ * @param options
+ */
+export function usePageTracking(options?: PageTrackingOptions): void {
+  useClientPageTracking(useSegment(), options);
+}
+
+/**
+ * Track an event once when the component mounts. The event is only sent once per mount, even when StrictMode
+ * runs effects twice or the event object is recreated on every render.
+ * @param event The event to track
+ */
+export function useTrackOnMount(event: TrackEvent): void {
+  const client = useSegment();
+  const latest = useLatest(event);
+  const tracked = useRef(false);
+
+  useEffect(() => {
+    if (tracked.current || !latest.current) return;
+    tracked.current = true;
+    logFailure(client, client.track(latest.current));
+  }, [client, latest]);
+}
+
+export interface TrackOnViewOptions {
+  /**
+   * How much of the element needs to be visible, between 0 and 1. Defaults to 0, so any visible pixel counts.
+   */
+  threshold?: number;
+  /**
+   * Only track the first time the element comes into view. Defaults to true. Otherwise the event is tracked
+   * every time the element enters the viewport.
+   */
+  once?: boolean;
+}
+
+/**
+ * Track an event when an element enters the viewport. Nothing is tracked in browsers without
+ * IntersectionObserver.
+ * @param ref A ref to the element to watch
+ * @param event The event to track when the element is visible
+ * @param options
+ */
+export function useTrackOnView(
+  ref: RefObject<Element>,
+  event: TrackEvent,
+  options: TrackOnViewOptions = {}
+): void {
+  const { threshold = 0, once = true } = options;
+  const client = useSegment();
+  const latest = useLatest(event);
+  const tracked = useRef(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+    if (once && tracked.current) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (!entries.some(entry => entry.isIntersecting) || !latest.current) {
+          return;
+        }
+        tracked.current = true;
+        logFailure(client, client.track(latest.current));
+        if (once) observer.disconnect();
+      },
+      { threshold }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [client, latest, once, ref, threshold]);
+}
+
+/**
+ * Call the handler whenever analytics.js emits an event for a call, for example for every track call. The handler
+ * can change between renders without subscribing again, and it's removed when the component unmounts.
+ * @param method The type of call to listen for
+ * @param handler
+ */
+export function useSegmentEvent(
+  method: EventType,
+  handler: AnalyticsListener
+): void {
+  const client = useSegment();
+  const latest = useLatest(handler);
+
+  useEffect(
+    () =>
+      client.on(method, (...args) => {
+        if (latest.current) latest.current(...args);
+      }),
+    [client, latest, method]
+  );
+}
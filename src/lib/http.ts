@@ -0,0 +1,513 @@
+import { EventEmitter } from 'events';
+import {
+  Analytics,
+  AnalyticsUser,
+  EventType,
+  Properties,
+  SegmentOpts,
+} from './types';
+import { uuid } from './uuid';
+import { Logger, consoleLogger } from './logger';
+import { unref } from './timers';
+
+/**
+ * The part of `fetch` used to send events. Pass your own where there's no global `fetch`, like older versions
+ * of Node.
+ */
+export type Fetch = (
+  url: string,
+  init: {
+    method: string;
+    headers: Record<string, string>;
+    body: string;
+    keepalive?: boolean;
+  }
+) => Promise<{ ok: boolean; status: number }>;
+
+/**
+ * A message in the format of the Segment HTTP Tracking API.
+ * @see https://segment.com/docs/connections/sources/catalog/libraries/server/http-api/
+ */
+export interface Payload {
+  type: EventType;
+  messageId: string;
+  timestamp: string;
+  userId?: string;
+  anonymousId?: string;
+  context?: Properties;
+  integrations?: any;
+  event?: string;
+  name?: string;
+  category?: string;
+  properties?: Properties;
+  traits?: Properties;
+  groupId?: string;
+  previousId?: string;
+}
+
+const library = { name: '@newfront/react-segment-hooks' };
+
+/**
+ * Build a message for the HTTP Tracking API. The message ID, timestamp and anonymous ID in the options are used
+ * when they're given, so replayed messages keep their identity.
+ * @param type
+ * @param fields The fields specific to the type of call
+ * @param options
+ * @param identity The current user
+ */
+function createPayload(
+  type: EventType,
+  fields: Partial<Payload>,
+  options: SegmentOpts = {},
+  identity: { userId?: string; anonymousId?: string } = {}
+): Payload {
+  const { timestamp = new Date() } = options;
+  return {
+    userId: identity.userId,
+    ...fields,
+    type,
+    anonymousId: options.anonymousId || identity.anonymousId,
+    messageId: options.messageId || uuid(),
+    timestamp:
+      typeof timestamp === 'string' ? timestamp : timestamp.toISOString(),
+    context: { ...options.context, library },
+    integrations: options.integrations,
+  };
+}
+
+function base64(value: string): string {
+  if (typeof btoa === 'function') return btoa(value);
+  return Buffer.from(value).toString('base64');
+}
+
+/**
+ * The headers for the HTTP Tracking API. The write key is sent as the basic auth username.
+ * @param writeKey
+ */
+function createHeaders(writeKey: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Basic ${base64(`${writeKey}:`)}`,
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+interface PostOptions {
+  fetch: Fetch;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  keepalive?: boolean;
+  maxRetries?: number;
+  retryDelay?: number;
+}
+
+/**
+ * POST a request, retrying network errors, rate limits and server errors with exponential backoff. Other client
+ * errors aren't retried because sending the same request again won't help.
+ * @param options
+ */
+async function post(options: PostOptions): Promise<void> {
+  const {
+    fetch,
+    url,
+    headers,
+    body,
+    keepalive,
+    maxRetries = 3,
+    retryDelay = 1000,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: { ok: boolean; status: number };
+    try {
+      response = await fetch(url, { method: 'POST', headers, body, keepalive });
+    } catch (error) {
+      if (attempt >= maxRetries) throw error;
+      await delay(retryDelay * 2 ** attempt);
+      continue;
+    }
+    if (response.ok) return;
+
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= maxRetries) {
+      throw new Error(`[Segment] The request failed with ${response.status}`);
+    }
+    await delay(retryDelay * 2 ** attempt);
+  }
+}
+
+export interface HttpAnalyticsOptions {
+  writeKey: string;
+  /**
+   * Where to send events. Batches are posted to `/v1/batch` on this host, so it can be a first-party proxy for
+   * the Segment API. Defaults to https://api.segment.io.
+   */
+  host?: string;
+  /**
+   * Send a batch once this many messages are waiting.
+   */
+  flushAt?: number;
+  /**
+   * Send waiting messages after this many milliseconds.
+   */
+  flushInterval?: number;
+  maxRetries?: number;
+  /**
+   * The delay before the first retry in milliseconds. It doubles with every retry.
+   */
+  retryDelay?: number;
+  fetch?: Fetch;
+  /**
+   * Called when a batch couldn't be delivered after every retry. By default a warning is logged.
+   */
+  onError?: (error: Error, batch: Payload[]) => void;
+  /**
+   * Where debug messages and warnings are written. Defaults to the console.
+   */
+  logger?: Logger;
+}
+
+interface PendingPayload {
+  payload: Payload;
+  callback?: () => void;
+}
+
+type Listener = (
+  event: string,
+  properties?: Properties,
+  options?: SegmentOpts
+) => void;
+
+/**
+ * An implementation of the analytics.js API that sends calls to the Segment HTTP Tracking API in batches. The
+ * server and browser versions extend this with their own defaults, context and storage for the user.
+ */
+export class HttpAnalytics implements Analytics {
+  protected options: HttpAnalyticsOptions;
+
+  protected userId: string | null = null;
+
+  protected anonymousId: string | null = null;
+
+  protected traits: Properties = {};
+
+  private pending: PendingPayload[] = [];
+
+  private sending = new Set<Promise<void>>();
+
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  private isDebug = false;
+
+  private emitter = new EventEmitter();
+
+  constructor(options: HttpAnalyticsOptions) {
+    this.options = options;
+  }
+
+  identify(
+    userId: string,
+    traits: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    if (userId !== this.userId) this.traits = {};
+    this.userId = userId;
+    this.traits = { ...this.traits, ...traits };
+    this.saveUser();
+    this.enqueue(
+      this.createPayload(EventType.identify, { traits }, options),
+      callback
+    );
+    this.emitter.emit(EventType.identify, userId, traits, options);
+  }
+
+  track(
+    event: string,
+    properties: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.enqueue(
+      this.createPayload(EventType.track, { event, properties }, options),
+      callback
+    );
+    this.emitter.emit(EventType.track, event, properties, options);
+  }
+
+  page(
+    category?: string,
+    name?: string,
+    properties: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.enqueue(
+      this.createPayload(
+        EventType.page,
+        { category, name, properties },
+        options
+      ),
+      callback
+    );
+    this.emitter.emit(EventType.page, category, name, properties, options);
+  }
+
+  group(
+    groupId: string,
+    traits: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.enqueue(
+      this.createPayload(EventType.group, { groupId, traits }, options),
+      callback
+    );
+    this.emitter.emit(EventType.group, groupId, traits, options);
+  }
+
+  alias(
+    userId: string,
+    previousId?: string,
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    const from = previousId || this.userId || this.getAnonymousId();
+    this.enqueue(
+      this.createPayload(
+        EventType.alias,
+        { userId, previousId: from },
+        options
+      ),
+      callback
+    );
+    this.emitter.emit(EventType.alias, userId, previousId, options);
+  }
+
+  /**
+   * Binding to elements is left to the browser version, so this does nothing.
+   */
+  trackLink(
+    _elements: Element | Element[],
+    _event: string,
+    _properties?: Properties
+  ): void {
+    return undefined;
+  }
+
+  /**
+   * Binding to elements is left to the browser version, so this does nothing.
+   */
+  trackForm(
+    _elements: Element | Element[],
+    _event: string,
+    _properties?: Properties
+  ): void {
+    return undefined;
+  }
+
+  ready(callback: () => void): void {
+    callback();
+  }
+
+  user(): AnalyticsUser {
+    return {
+      id: () => this.userId,
+      anonymousId: () => this.getAnonymousId(),
+      traits: () => this.traits,
+    };
+  }
+
+  reset(): void {
+    this.userId = null;
+    this.anonymousId = null;
+    this.traits = {};
+    this.saveUser();
+  }
+
+  debug(state = true): void {
+    this.isDebug = state;
+  }
+
+  setAnonymousId(id: string): void {
+    this.anonymousId = id;
+    this.saveUser();
+  }
+
+  /**
+   * Callbacks are called once the batch has been delivered, so there's no timeout to set.
+   */
+  timeout(): void {
+    return undefined;
+  }
+
+  on(method: EventType, callback: Listener): void {
+    this.emitter.on(method, callback);
+  }
+
+  once(method: EventType, callback: Listener): void {
+    this.emitter.once(method, callback);
+  }
+
+  off(method: EventType, callback?: Listener): void {
+    if (callback) {
+      this.emitter.removeListener(method, callback);
+    } else {
+      this.emitter.removeAllListeners(method);
+    }
+  }
+
+  /**
+   * The longest a callback can take, in milliseconds, not counting the requests themselves. Messages wait up to
+   * `flushInterval` for their batch to be sent, and a failed batch is retried with backoff.
+   */
+  get maxCallbackDelay(): number {
+    const {
+      flushInterval = 10000,
+      maxRetries = 3,
+      retryDelay = 1000,
+    } = this.options;
+    return flushInterval + retryDelay * (2 ** maxRetries - 1);
+  }
+
+  /**
+   * Send every waiting message now. The promise resolves once every batch, including ones that were already
+   * being sent, has been delivered or has failed.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const { flushAt = 20 } = this.options;
+    while (this.pending.length) {
+      this.send(this.pending.splice(0, flushAt));
+    }
+    return Promise.all(Array.from(this.sending)).then(() => undefined);
+  }
+
+  /**
+   * Extra context added to every message.
+   */
+  protected getContext(): Properties {
+    return {};
+  }
+
+  /**
+   * Called whenever the user changes, so it can be stored.
+   */
+  protected saveUser(): void {
+    return undefined;
+  }
+
+  /**
+   * Send the body of a batch request.
+   * @param url
+   * @param body
+   */
+  protected deliver(url: string, body: string): Promise<void> {
+    const { writeKey, maxRetries, retryDelay } = this.options;
+    return post({
+      fetch: this.getFetch(),
+      url,
+      headers: createHeaders(writeKey),
+      body,
+      keepalive: true,
+      maxRetries,
+      retryDelay,
+    });
+  }
+
+  /**
+   * Messages need either a user ID or an anonymous ID, so an anonymous ID is generated when there is neither.
+   */
+  private getAnonymousId(): string {
+    if (!this.anonymousId) {
+      this.anonymousId = uuid();
+      this.saveUser();
+    }
+    return this.anonymousId;
+  }
+
+  private createPayload(
+    type: EventType,
+    fields: Partial<Payload>,
+    options: SegmentOpts = {}
+  ): Payload {
+    return createPayload(
+      type,
+      fields,
+      { ...options, context: { ...this.getContext(), ...options.context } },
+      {
+        userId: this.userId || undefined,
+        anonymousId: this.getAnonymousId(),
+      }
+    );
+  }
+
+  /**
+   * Add a message to the next batch. The callback is called once the batch has been delivered or has failed.
+   * @param payload
+   * @param callback
+   */
+  protected enqueue(payload: Payload, callback?: () => void): void {
+    const { flushAt = 20, flushInterval = 10000 } = this.options;
+    this.log('[Segment] Queueing message', payload);
+    this.pending.push({ payload, callback });
+    if (this.pending.length >= flushAt) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = unref(setTimeout(() => this.flush(), flushInterval));
+    }
+  }
+
+  private send(items: PendingPayload[]): void {
+    const {
+      writeKey,
+      host = 'https://api.segment.io',
+      onError,
+      logger = consoleLogger,
+    } = this.options;
+    const batch = items.map(item => item.payload);
+    const body = JSON.stringify({
+      batch,
+      sentAt: new Date().toISOString(),
+      context: { library },
+      writeKey,
+    });
+    const sending = this.deliver(`${host}/v1/batch`, body)
+      .then(
+        () => this.log(`[Segment] Sent a batch of ${batch.length} messages`),
+        error => {
+          if (onError) {
+            onError(error, batch);
+          } else {
+            logger.warn('[Segment] Failed to send a batch of messages', error);
+          }
+        }
+      )
+      .then(() => {
+        this.sending.delete(sending);
+        items.forEach(item => item.callback && item.callback());
+      });
+    this.sending.add(sending);
+  }
+
+  private log(message: string, ...details: unknown[]): void {
+    const { logger = consoleLogger } = this.options;
+    if (this.isDebug) logger.debug(message, ...details);
+  }
+
+  private getFetch(): Fetch {
+    if (this.options.fetch) return this.options.fetch;
+    if (typeof fetch === 'function') return (url, init) => fetch(url, init);
+    return () =>
+      Promise.reject(
+        new Error('[Segment] fetch is not available. Pass the fetch option.')
+      );
+  }
+}
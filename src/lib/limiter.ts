@@ -0,0 +1,87 @@
+interface Waiter<R> {
+  resolve: (result: R) => void;
+  reject: (error: Error) => void;
+}
+
+interface Pending<T, R> {
+  value?: T;
+  timer: ReturnType<typeof setTimeout>;
+  waiters: Waiter<R>[];
+}
+
+/**
+ * Debounce or throttle calls that share a key. Calls that are skipped aren't lost: their promises settle with the
+ * result of the call that is eventually sent in their place.
+ */
+export class RateLimiter<T, R = void> {
+  private pending = new Map<string, Pending<T, R>>();
+
+  private send: (value: T) => Promise<R>;
+
+  constructor(send: (value: T) => Promise<R>) {
+    this.send = send;
+  }
+
+  /**
+   * Send the value once no other value has been passed for the same key within `ms`. Only the last value is
+   * sent.
+   * @param key
+   * @param value
+   * @param ms
+   */
+  debounce(key: string, value: T, ms: number): Promise<R> {
+    return new Promise((resolve, reject) => {
+      const pending = this.pending.get(key);
+      if (pending) clearTimeout(pending.timer);
+      const waiters = pending ? pending.waiters : [];
+      waiters.push({ resolve, reject });
+      this.pending.set(key, {
+        value,
+        waiters,
+        timer: setTimeout(() => {
+          this.pending.delete(key);
+          this.settle(this.send(value), waiters);
+        }, ms),
+      });
+    });
+  }
+
+  /**
+   * Send the value straight away, then at most once every `ms` for the same key. Values passed in between are
+   * replaced by the latest one, which is sent at the end of the interval.
+   * @param key
+   * @param value
+   * @param ms
+   */
+  throttle(key: string, value: T, ms: number): Promise<R> {
+    const pending = this.pending.get(key);
+    if (!pending) {
+      this.startInterval(key, ms);
+      return this.send(value);
+    }
+    return new Promise((resolve, reject) => {
+      pending.value = value;
+      pending.waiters.push({ resolve, reject });
+    });
+  }
+
+  private startInterval(key: string, ms: number): void {
+    const pending: Pending<T, R> = {
+      waiters: [],
+      timer: setTimeout(() => {
+        this.pending.delete(key);
+        if (pending.value === undefined) return;
+        this.startInterval(key, ms);
+        this.settle(this.send(pending.value), pending.waiters);
+      }, ms),
+    };
+    this.pending.set(key, pending);
+  }
+
+  private settle(result: Promise<R>, waiters: Waiter<R>[]): void {
+    result.then(
+      value => waiters.forEach(waiter => waiter.resolve(value)),
+      error => waiters.forEach(waiter => waiter.reject(error))
+    );
+  }
+}
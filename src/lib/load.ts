@@ -1,69 +1,451 @@
 import { Analytics } from './types';
+import { Logger, consoleLogger } from './logger';
 
-interface Options {
+export interface LoadOptions {
   apiKey: string;
   debug?: boolean;
+  /**
+   * Where debug messages and warnings are written. Defaults to the console.
+   */
+  logger?: Logger;
+  /**
+   * The host analytics.js and the destinations it loads are served from, for example a first-party proxy for
+   * the Segment CDN. Defaults to https://cdn.segment.com.
+   */
+  cdnHost?: string;
+  /**
+   * The full URL of analytics.js, for example when it's self-hosted. `{cdnHost}` and `{apiKey}` are replaced
+   * with their values.
+   */
+  scriptUrl?: string;
+  /**
+   * The host events are sent to, for example a first-party proxy for the Segment API such as
+   * https://example.com/segment. Defaults to https://api.segment.io.
+   */
+  apiHost?: string;
+  /**
+   * The nonce for a Content Security Policy that only allows scripts with it.
+   */
+  nonce?: string;
+  /**
+   * A subresource integrity hash for a self-hosted copy of analytics.js.
+   */
+  integrity?: string;
+  crossOrigin?: 'anonymous' | 'use-credentials';
+  /**
+   * How long to wait for each attempt to load the script in milliseconds. Defaults to 3 seconds.
+   */
+  scriptTimeout?: number;
+  /**
+   * How many times to retry loading the script after it fails or times out. Defaults to 2.
+   */
+  scriptRetries?: number;
+  /**
+   * The delay before the first retry in milliseconds. It doubles with every retry. Defaults to 500.
+   */
+  scriptRetryDelay?: number;
+  /**
+   * How long to wait for analytics.js to load before failing, in milliseconds. This also limits how long to wait
+   * for a snippet already on the page. Defaults to the longest the script retries can take.
+   */
+  loadTimeout?: number;
+  /**
+   * Load a separate instance of analytics.js for this source and leave `window.analytics` alone. This is used to
+   * send to several sources from one page.
+   */
+  isolated?: boolean;
 }
 
 /**
- * Load a script into the DOM
- * @param src
+ * The `window.analytics` stub the snippet creates before analytics.js has loaded, with the settings analytics.js
+ * reads when it boots.
  */
-async function loadScript(src: string): Promise<void> {
-  if (typeof document === 'undefined') {
-    throw new Error('Unable to load script in a server environment');
+type AnalyticsStub = Analytics & {
+  _writeKey?: string;
+  _cdn?: string;
+  _loadOptions?: object;
+  invoked?: boolean;
+};
+
+type ScriptAttributes = Pick<
+  LoadOptions,
+  'nonce' | 'integrity' | 'crossOrigin'
+>;
+
+/**
+ * Why a script couldn't be loaded. It either failed, for example because it was blocked, or took too long.
+ */
+export type ScriptLoadFailure = 'error' | 'timeout';
+
+/**
+ * The error used when analytics.js couldn't be loaded.
+ */
+export class ScriptLoadError extends Error {
+  url: string;
+
+  reason: ScriptLoadFailure;
+
+  constructor(url: string, reason: ScriptLoadFailure, timeout?: number) {
+    super(
+      reason === 'timeout'
+        ? `[Segment] ${url} did not load within ${timeout}ms`
+        : `[Segment] ${url} could not be loaded`
+    );
+    this.name = 'ScriptLoadError';
+    this.url = url;
+    this.reason = reason;
+    Object.setPrototypeOf(this, ScriptLoadError.prototype);
   }
+}
+
+/**
+ * Scripts that are loading or have loaded, by URL, so the same script is only added once.
+ */
+const scripts = new Map<string, Promise<void>>();
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const defaultScriptUrl = '{cdnHost}/analytics.js/v1/{apiKey}/analytics.min.js';
+
+/**
+ * The script options with their defaults filled in.
+ * @param options
+ */
+function getRetryOptions(
+  options: LoadOptions
+): Required<
+  Pick<LoadOptions, 'scriptTimeout' | 'scriptRetries' | 'scriptRetryDelay'>
+> {
+  const {
+    scriptTimeout = 3000,
+    scriptRetries = 2,
+    scriptRetryDelay = 500,
+  } = options;
+  return { scriptTimeout, scriptRetries, scriptRetryDelay };
+}
+
+/**
+ * The longest loading the script can take, when every attempt times out. With the default options this is
+ * 10.5 seconds.
+ * @param options
+ */
+export function getMaxLoadTime(options: LoadOptions): number {
+  const { scriptTimeout, scriptRetries, scriptRetryDelay } = getRetryOptions(
+    options
+  );
+  let total = scriptTimeout * (scriptRetries + 1);
+  for (let retry = 0; retry < scriptRetries; retry++) {
+    total += scriptRetryDelay * 2 ** retry;
+  }
+  return total;
+}
+
+/**
+ * Add a script tag and wait for it to load. A tag that fails or times out is removed again.
+ * @param src
+ * @param attributes
+ * @param timeout
+ */
+function addScript(
+  src: string,
+  attributes: ScriptAttributes,
+  timeout: number
+): Promise<void> {
   return new Promise((resolve, reject) => {
-    let script = document.createElement('script');
+    const script = document.createElement('script');
     script.type = 'text/javascript';
     script.async = true;
     script.src = src;
-    script.onload = () => resolve();
-    script.onerror = reject;
+    if (attributes.nonce) script.nonce = attributes.nonce;
+    if (attributes.integrity) script.integrity = attributes.integrity;
+    if (attributes.crossOrigin) script.crossOrigin = attributes.crossOrigin;
+
+    const fail = (reason: ScriptLoadFailure) => {
+      clearTimeout(timer);
+      script.onload = null;
+      script.onerror = null;
+      script.remove();
+      reject(new ScriptLoadError(src, reason, timeout));
+    };
+    const timer = setTimeout(() => fail('timeout'), timeout);
+    script.onload = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    script.onerror = () => fail('error');
     document.head.appendChild(script);
   });
 }
 
 /**
- * This loads the Segment analytics.js snippet onto the page using the API key. This
- * API key maps to the "source" in Segment. This API key will be different depending on the environment.
- * @param apiKey Segment API key
+ * Add a script tag, retrying with exponential backoff if it fails or times out.
+ * @param src
+ * @param attributes
+ * @param options
+ */
+async function addScriptWithRetries(
+  src: string,
+  attributes: ScriptAttributes,
+  options: LoadOptions
+): Promise<void> {
+  const { scriptTimeout, scriptRetries, scriptRetryDelay } = getRetryOptions(
+    options
+  );
+  for (let retry = 0; ; retry++) {
+    try {
+      await addScript(src, attributes, scriptTimeout);
+      return;
+    } catch (error) {
+      if (retry >= scriptRetries) throw error;
+      await delay(scriptRetryDelay * 2 ** retry);
+    }
+  }
+}
+
+/**
+ * Load a script into the DOM, retrying if it fails or times out. Loading the same URL again while it's loading,
+ * or after it has loaded, returns the same promise instead of adding another tag.
+ * @param src
+ * @param attributes
+ * @param options
+ */
+async function loadScript(
+  src: string,
+  attributes: ScriptAttributes,
+  options: LoadOptions
+): Promise<void> {
+  if (typeof document === 'undefined') {
+    throw new Error('Unable to load script in a server environment');
+  }
+  const existing = scripts.get(src);
+  if (existing) return existing;
+
+  const loading = addScriptWithRetries(src, attributes, options).catch(
+    error => {
+      scripts.delete(src);
+      throw error;
+    }
+  );
+  scripts.set(src, loading);
+  return loading;
+}
+
+/**
+ * The official snippet replaces `window.analytics` with a stub that records calls until analytics.js has loaded
+ * and replaced it. Stubs are arrays, and analytics.js itself isn't.
+ * @param analytics
  */
-export async function loadSegmentSnippet(
-  options: Options
+function isStub(analytics: unknown): boolean {
+  return Array.isArray(analytics);
+}
+
+/**
+ * analytics.js boots from and replaces `window.analytics`, so isolated instances are loaded one at a time, and
+ * never while another copy of analytics.js is loading.
+ */
+let isolatedLoad: Promise<unknown> = Promise.resolve();
+
+let isolatedLoads = 0;
+
+/**
+ * Load a separate instance of analytics.js. `window.analytics` is swapped out while its script runs and put
+ * back afterwards.
+ * @param options
+ */
+function loadIsolated(options: LoadOptions): Promise<Analytics> {
+  const { nonce, integrity, crossOrigin } = options;
+  const url = getScriptUrl(options);
+  const waitFor = [isolatedLoad, ...Array.from(scripts.values())].map(loading =>
+    loading.catch(() => undefined)
+  );
+
+  const loading = Promise.all(waitFor).then(async () => {
+    const previous = window.analytics;
+    delete window.analytics;
+    try {
+      configureHosts(options);
+      await addScriptWithRetries(
+        url,
+        { nonce, integrity, crossOrigin },
+        options
+      );
+      const instance = window.analytics;
+      if (!instance || isStub(instance)) {
+        throw new ScriptLoadError(url, 'error');
+      }
+      return instance;
+    } finally {
+      if (previous) {
+        window.analytics = previous;
+      } else {
+        delete window.analytics;
+      }
+    }
+  });
+
+  isolatedLoads++;
+  isolatedLoad = loading.then(
+    () => isolatedLoads--,
+    () => isolatedLoads--
+  );
+  return loading;
+}
+
+/**
+ * Wait for a snippet already on the page to finish loading analytics.js.
+ * @param timeout
+ */
+function waitForSnippet(timeout: number): Promise<Analytics> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (!isStub(window.analytics)) {
+        resolve(window.analytics);
+      } else if (Date.now() - started >= timeout) {
+        reject(
+          new ScriptLoadError('The analytics.js snippet', 'timeout', timeout)
+        );
+      } else {
+        setTimeout(check, 50);
+      }
+    };
+    check();
+  });
+}
+
+/**
+ * The URL to load analytics.js from.
+ * @param options
+ */
+export function getScriptUrl(options: LoadOptions): string {
+  const {
+    apiKey,
+    cdnHost = 'https://cdn.segment.com',
+    scriptUrl = defaultScriptUrl,
+  } = options;
+  return scriptUrl
+    .replace('{cdnHost}', cdnHost.replace(/\/$/, ''))
+    .replace('{apiKey}', apiKey);
+}
+
+/**
+ * Pass the CDN and API hosts to analytics.js. It reads these from the `window.analytics` stub when it boots,
+ * like it does with the official snippet. The API host is given without the protocol and with the version.
+ * @param options
+ */
+function configureHosts(options: LoadOptions): void {
+  const { apiKey, cdnHost, apiHost } = options;
+  if (!cdnHost && !apiHost) return;
+  const stub: AnalyticsStub = isStub(window.analytics)
+    ? window.analytics
+    : (([] as unknown) as AnalyticsStub);
+  stub._writeKey = apiKey;
+  if (cdnHost) stub._cdn = cdnHost.replace(/\/$/, '');
+  if (apiHost) {
+    stub._loadOptions = {
+      integrations: {
+        'Segment.io': {
+          apiHost: `${apiHost
+            .replace(/^https?:\/\//, '')
+            .replace(/\/$/, '')}/v1`,
+        },
+      },
+    };
+  }
+  window.analytics = stub;
+}
+
+/**
+ * Load analytics.js like loadSegmentSnippet, but reject with a ScriptLoadError if it can't be loaded so the client
+ * can tell why it failed.
+ * @param options
+ */
+export async function loadAnalytics(
+  options: LoadOptions
 ): Promise<Analytics | undefined> {
-  const { apiKey, debug = false } = options;
+  const {
+    apiKey,
+    debug = false,
+    logger = consoleLogger,
+    nonce,
+    integrity,
+    crossOrigin,
+  } = options;
+  const { loadTimeout = getMaxLoadTime(options) } = options;
+  const log = (message: string) => {
+    if (debug) logger.debug(message);
+  };
 
   if (typeof window === 'undefined') {
-    if (debug)
-      console.log(
-        '[Segment] Unable to load analytics.js in a server environment. Skipping.'
-      );
+    log(
+      '[Segment] Unable to load analytics.js in a server environment. Skipping.'
+    );
     return undefined;
   }
 
-  if (typeof window.analytics !== 'undefined') {
-    // eslint-disable-next-line no-console
-    if (debug)
-      console.log(
-        '[Segment] analytics.js already loaded. Using the existing window.analytics.'
+  if (options.isolated) {
+    log(`[Segment] Loading analytics.js for ${apiKey}...`);
+    return loadIsolated(options).catch(error => {
+      logger.warn(
+        `[Segment] Failed to load analytics.js for ${apiKey}. No analytics events will be tracked.`,
+        error
       );
-    return window.analytics;
+      throw error;
+    });
   }
 
-  try {
-    if (debug) console.log(`[Segment] Loading analytics.js...`);
-    if (debug) console.log(`[Segment] Using write key: ${apiKey}`);
-    await loadScript(
-      `https://cdn.segment.com/analytics.js/v1/${apiKey}/analytics.min.js`
+  if (isolatedLoads) await isolatedLoad;
+
+  const existing = window.analytics as AnalyticsStub | undefined;
+  if (existing && !isStub(existing)) {
+    log(
+      '[Segment] analytics.js already loaded. Using the existing window.analytics.'
+    );
+    return existing;
+  }
+
+  if (existing && existing.invoked) {
+    log(
+      '[Segment] Found the analytics.js snippet. Waiting for it to load analytics.js...'
     );
-    if (debug) console.log('[Segment] analytics.js is loaded and ready ✅');
+    return waitForSnippet(loadTimeout);
+  }
+
+  const url = getScriptUrl(options);
+  try {
+    log(`[Segment] Loading analytics.js...`);
+    log(`[Segment] Using write key: ${apiKey}`);
+    configureHosts(options);
+    await loadScript(url, { nonce, integrity, crossOrigin }, options);
   } catch (error) {
-    console.warn(
-      '[Segment] Failed to load analytics.js. No analytics events will be tracked.'
+    // Remove the stub with the hosts so a later attempt doesn't mistake it for analytics.js
+    if (isStub(window.analytics)) delete window.analytics;
+    logger.warn(
+      '[Segment] Failed to load analytics.js. No analytics events will be tracked.',
+      error
     );
-    return undefined;
+    throw error;
+  }
+
+  if (!window.analytics || isStub(window.analytics)) {
+    throw new ScriptLoadError(url, 'error');
   }
+  log('[Segment] analytics.js is loaded and ready ✅');
+  return window.analytics;
+}
 
-  return (window.analytics as unknown) as Analytics;
+/**
+ * This loads the Segment analytics.js snippet onto the page using the API key. This
+ * API key maps to the "source" in Segment. This API key will be different depending on the environment.
+ *
+ * If the official snippet is already on the page, this waits for it to load analytics.js instead. The promise
+ * resolves with undefined if analytics.js can't be loaded, after logging a warning, and on the server.
+ * @param options The Segment API key and where to load analytics.js from
+ */
+export function loadSegmentSnippet(
+  options: LoadOptions
+): Promise<Analytics | undefined> {
+  return loadAnalytics(options).catch(() => undefined);
 }
@@ -0,0 +1,35 @@
+/**
+ * Where diagnostics are written. Pass your own to send them to your logging or error reporting instead of the
+ * console. Debug messages are only written when `debug` is on, while warnings, like a failed load or a tracking
+ * plan violation, are always written.
+ */
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+}
+
+/**
+ * The default logger, which writes to the console.
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...details) => console.log(message, ...details),
+  warn: (message, ...details) => console.warn(message, ...details),
+};
+
+/**
+ * Log a call that failed, for calls nothing waits on. Otherwise a call rejected by the tracking plan or a failed
+ * load would be an unhandled rejection.
+ * @param client
+ * @param call
+ * @param onFailure Called after the failure is logged
+ */
+export function logFailure(
+  client: { logger: Logger },
+  call: Promise<unknown>,
+  onFailure?: () => void
+): void {
+  call.catch(error => {
+    client.logger.warn('[Segment] Call failed', error);
+    if (onFailure) onFailure();
+  });
+}
@@ -0,0 +1,122 @@
+import { MockSegmentClient } from './testing';
+import { Properties } from './types';
+
+/**
+ * The parts of Jest's matcher context the matchers use, so this module doesn't depend on Jest's globals.
+ */
+interface MatcherContext {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+  utils: {
+    printExpected(value: unknown): string;
+    printReceived(value: unknown): string;
+  };
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message(): string;
+}
+
+function assertClient(received: unknown, matcher: string): MockSegmentClient {
+  if (!(received instanceof MockSegmentClient)) {
+    throw new Error(`${matcher} expects a MockSegmentClient`);
+  }
+  return received;
+}
+
+function containsAll(
+  context: MatcherContext,
+  actual: Properties | undefined,
+  expected: Properties
+): boolean {
+  return Object.keys(expected).every(
+    key => !!actual && context.equals(actual[key], expected[key])
+  );
+}
+
+function label(name: string, values?: Properties): string {
+  return values ? `${name} with ${JSON.stringify(values)}` : name;
+}
+
+/**
+ * Jest matchers for a MockSegmentClient. Add them with `expect.extend(segmentMatchers)`, and reference
+ * `testing/matchers.d.ts` for their types.
+ */
+export const segmentMatchers = {
+  toHaveTracked(
+    this: MatcherContext,
+    received: unknown,
+    event: string,
+    properties?: Properties
+  ): MatcherResult {
+    const client = assertClient(received, 'toHaveTracked');
+    const tracked = client.getTrackedEvents();
+    const pass = tracked.some(
+      call =>
+        call.event === event &&
+        (!properties || containsAll(this, call.properties, properties))
+    );
+    return {
+      pass,
+      message: () =>
+        `Expected ${
+          this.isNot ? 'not ' : ''
+        }to have tracked ${this.utils.printExpected(
+          label(event, properties)
+        )}\nTracked: ${this.utils.printReceived(
+          tracked.map(call => call.event)
+        )}`,
+    };
+  },
+
+  toHaveIdentified(
+    this: MatcherContext,
+    received: unknown,
+    userId: string,
+    traits?: Properties
+  ): MatcherResult {
+    const client = assertClient(received, 'toHaveIdentified');
+    const identifies = client.getIdentifies();
+    const pass = identifies.some(
+      call =>
+        call.userId === userId &&
+        (!traits || containsAll(this, call.traits, traits))
+    );
+    return {
+      pass,
+      message: () =>
+        `Expected ${
+          this.isNot ? 'not ' : ''
+        }to have identified ${this.utils.printExpected(
+          label(userId, traits)
+        )}\nIdentified: ${this.utils.printReceived(
+          identifies.map(call => call.userId)
+        )}`,
+    };
+  },
+
+  toHaveTrackedPage(
+    this: MatcherContext,
+    received: unknown,
+    name?: string,
+    properties?: Properties
+  ): MatcherResult {
+    const client = assertClient(received, 'toHaveTrackedPage');
+    const pages = client.getPages();
+    const pass = pages.some(
+      call =>
+        (name === undefined || call.name === name) &&
+        (!properties || containsAll(this, call.properties, properties))
+    );
+    return {
+      pass,
+      message: () =>
+        `Expected ${
+          this.isNot ? 'not ' : ''
+        }to have tracked the page ${this.utils.printExpected(
+          label(name || 'any page', properties)
+        )}\nPages: ${this.utils.printReceived(pages.map(call => call.name))}`,
+    };
+  },
+};
@@ -0,0 +1,56 @@
+import { EventMessage, Message } from './types';
+
+/**
+ * Middleware runs on every page, identify, track, group and alias call before it's sent to analytics.js.
+ * Return the message, changed or not, to send it, or null to drop it.
+ */
+export type Middleware = (message: EventMessage) => EventMessage | null;
+
+/**
+ * Whether the message is one that goes through middleware. Link and form bindings don't, and neither do resets
+ * and anonymous IDs, so middleware can never stop the user's identity from being cleared.
+ * @param message
+ */
+export function isEventMessage(message: Message): message is EventMessage {
+  return (
+    message.type !== 'trackLink' &&
+    message.type !== 'trackForm' &&
+    message.type !== 'reset' &&
+    message.type !== 'setAnonymousId'
+  );
+}
+
+/**
+ * Run the message through each middleware in the order they were added. Returns null as soon as one of
+ * them drops the message.
+ * @param middleware
+ * @param message
+ */
+export function applyMiddleware(
+  middleware: Middleware[],
+  message: EventMessage
+): EventMessage | null {
+  return middleware.reduce<EventMessage | null>(
+    (current, fn) => (current ? fn(current) : null),
+    message
+  );
+}
+
+/**
+ * Built-in middleware that sets the IP address to 0.0.0.0 so Segment doesn't record the user's real IP.
+ */
+export function anonymizeIp(): Middleware {
+  return message => {
+    const { options = {} } = message.event;
+    return {
+      ...message,
+      event: {
+        ...message.event,
+        options: {
+          ...options,
+          context: { ...options.context, ip: '0.0.0.0' },
+        },
+      },
+    } as EventMessage;
+  };
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import { SegmentClient } from './client';
+import { PageEvent } from './types';
+import { logFailure } from './logger';
+
+/**
+ * Where the current path comes from and how to find out when it changes. The default source watches the
+ * browser history, but you can provide your own to plug in a router.
+ */
+export interface RouteSource {
+  getPath(): string;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface PageTrackingOptions {
+  /**
+   * The current path. Pass this when your router already gives you the path, for example `useLocation().pathname`
+   * in React Router or `router.asPath` in Next.js. It takes precedence over the route source.
+   */
+  path?: string;
+  source?: RouteSource;
+  /**
+   * Return the name, category and properties for a path. Return null to skip tracking the page.
+   */
+  getPageEvent?: (path: string) => PageEvent | null;
+}
+
+const listeners: Array<() => void> = [];
+let restoreHistory: (() => void) | undefined;
+
+function notify(): void {
+  // Wait for the app to render the new route so the page title is up to date
+  setTimeout(() => listeners.forEach(listener => listener()), 0);
+}
+
+/**
+ * Patch pushState and replaceState so we hear about route changes made by client-side routers. The originals
+ * are restored once nothing is listening.
+ */
+function patchHistory(): () => void {
+  const { history } = window;
+  const { pushState, replaceState } = history;
+  history.pushState = (...args: Parameters<History['pushState']>) => {
+    pushState.apply(history, args);
+    notify();
+  };
+  history.replaceState = (...args: Parameters<History['replaceState']>) => {
+    replaceState.apply(history, args);
+    notify();
+  };
+  window.addEventListener('popstate', notify);
+  return () => {
+    history.pushState = pushState;
+    history.replaceState = replaceState;
+    window.removeEventListener('popstate', notify);
+  };
+}
+
+/**
+ * A route source that reads the path from `window.location` and listens to pushState, replaceState and popstate.
+ */
+export const historyRouteSource: RouteSource = {
+  getPath: () => window.location.pathname,
+  subscribe(listener) {
+    listeners.push(listener);
+    if (!restoreHistory) restoreHistory = patchHistory();
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) listeners.splice(index, 1);
+      if (!listeners.length && restoreHistory) {
+        restoreHistory();
+        restoreHistory = undefined;
+      }
+    };
+  },
+};
+
+/**
+ * Track a page view once on mount and again whenever the path changes. Page views are de-duplicated by path, so
+ * re-renders, replaceState calls that keep the path and StrictMode double effects don't send duplicates.
+ * @param client
+ * @param options
+ * @param enabled Hooks can't be called conditionally, so this turns tracking off
+ */
+export function useClientPageTracking(
+  client: SegmentClient,
+  options: PageTrackingOptions = {},
+  enabled = true
+): void {
+  const { path, source = historyRouteSource } = options;
+  const lastPath = useRef<string | undefined>(undefined);
+  const getPageEvent = useRef(options.getPageEvent);
+  getPageEvent.current = options.getPageEvent;
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+    if (path === undefined && typeof window === 'undefined') return undefined;
+
+    function trackPage(): void {
+      const current = path === undefined ? source.getPath() : path;
+      if (current === lastPath.current) return;
+      lastPath.current = current;
+      const event = getPageEvent.current ? getPageEvent.current(current) : {};
+      if (event) logFailure(client, client.page(event));
+    }
+
+    trackPage();
+    return path === undefined ? source.subscribe(trackPage) : undefined;
+  }, [client, enabled, path, source]);
+}
@@ -0,0 +1,240 @@
+import { Middleware } from './middleware';
+import { EventMessage, EventType, Properties } from './types';
+
+/**
+ * What to do with a field that matches a privacy rule. Redacted fields keep their key with a placeholder value,
+ * hashed fields are replaced with a hash of the value and dropped fields are removed.
+ */
+export type PrivacyAction = 'redact' | 'hash' | 'drop';
+
+/**
+ * A rule that matches fields by their key, their value or both. A rule with both only matches when the key and
+ * the value match.
+ */
+export interface PrivacyRule {
+  name?: string;
+  key?: string | RegExp;
+  value?: RegExp | ((value: string) => boolean);
+  action?: PrivacyAction;
+}
+
+/**
+ * A field that was changed or removed by the privacy filter.
+ */
+export interface Redaction {
+  path: string;
+  rule: string;
+  action: PrivacyAction;
+}
+
+export interface PrivacyOptions {
+  rules?: PrivacyRule[];
+  defaultRules?: boolean;
+  hash?: (value: string) => string;
+  onRedact?: (message: EventMessage, redactions: Redaction[]) => void;
+}
+
+/**
+ * Check a card number with the Luhn algorithm so long numeric IDs aren't mistaken for card numbers.
+ * @param value
+ */
+function isCardNumber(value: string): boolean {
+  const match = value.match(/\b(?:\d[ -]?){12,18}\d\b/);
+  if (!match) return false;
+  const digits = match[0].replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * The rules used unless `defaultRules` is false. Your own rules are checked before these.
+ */
+export const defaultPrivacyRules: PrivacyRule[] = [
+  { name: 'email', value: /[^\s@]+@[^\s@]+\.[^\s@]+/ },
+  {
+    name: 'phone',
+    value: /(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/,
+  },
+  { name: 'ssn', value: /\b\d{3}-\d{2}-\d{4}\b/ },
+  { name: 'credit card', value: isCardNumber },
+  { name: 'ssn', key: /^(ssn|social_?security(_?number)?)$/i },
+  { name: 'date of birth', key: /^(dob|date_?of_?birth|birth_?date)$/i },
+  { name: 'password', key: /password/i },
+];
+
+/**
+ * A fast, non-cryptographic 53-bit hash (cyrb53). Hashed values can't be read directly, but short inputs like
+ * SSNs can be brute forced, so pass your own `hash` function if that matters.
+ * @param value
+ */
+export function defaultHash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+function ruleName(rule: PrivacyRule): string {
+  if (rule.name) return rule.name;
+  return String(rule.key || rule.value);
+}
+
+function matchesKey(rule: PrivacyRule, key: string): boolean {
+  if (rule.key === undefined) return true;
+  if (typeof rule.key === 'string') {
+    return rule.key.toLowerCase() === key.toLowerCase();
+  }
+  return rule.key.test(key);
+}
+
+function matchesValue(rule: PrivacyRule, value: unknown): boolean {
+  if (rule.value === undefined) return true;
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  const text = String(value);
+  return typeof rule.value === 'function'
+    ? rule.value(text)
+    : rule.value.test(text);
+}
+
+function isPlainObject(value: unknown): value is Properties {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * Create middleware that redacts, hashes or drops personal information in the properties and traits of every
+ * page, track, identify and group call. Nested objects and arrays are checked too.
+ * @param options
+ */
+export function privacyFilter(options: PrivacyOptions = {}): Middleware {
+  const { defaultRules = true, hash = defaultHash, onRedact } = options;
+  const rules = [
+    ...(options.rules || []),
+    ...(defaultRules ? defaultPrivacyRules : []),
+  ];
+
+  function scrub(
+    value: unknown,
+    path: string,
+    redactions: Redaction[]
+  ): unknown {
+    if (Array.isArray(value)) {
+      return scrubEntries(
+        value.map((item: unknown, index) => [String(index), item]),
+        path,
+        redactions,
+        true
+      ).map(([, item]) => item);
+    }
+    if (isPlainObject(value)) {
+      return scrubObject(value, path, redactions);
+    }
+    return value;
+  }
+
+  function scrubObject(
+    value: Properties,
+    path: string,
+    redactions: Redaction[]
+  ): Properties {
+    const result: Properties = {};
+    scrubEntries(
+      Object.keys(value).map(key => [key, value[key]]),
+      path,
+      redactions,
+      false
+    ).forEach(([key, item]) => {
+      result[key] = item;
+    });
+    return result;
+  }
+
+  function scrubEntries(
+    entries: [string, unknown][],
+    path: string,
+    redactions: Redaction[],
+    isArray: boolean
+  ): [string, unknown][] {
+    const result: [string, unknown][] = [];
+    entries.forEach(([key, value]) => {
+      const fieldPath = isArray ? `${path}[${key}]` : `${path}.${key}`;
+      const rule = rules.find(
+        candidate =>
+          (isArray
+            ? candidate.key === undefined
+            : matchesKey(candidate, key)) && matchesValue(candidate, value)
+      );
+      if (!rule) {
+        result.push([key, scrub(value, fieldPath, redactions)]);
+        return;
+      }
+      const { action = 'redact' } = rule;
+      redactions.push({ path: fieldPath, rule: ruleName(rule), action });
+      if (action === 'redact') {
+        result.push([key, '[REDACTED]']);
+      } else if (action === 'hash') {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        result.push([key, hash(text)]);
+      }
+    });
+    return result;
+  }
+
+  return message => {
+    const redactions: Redaction[] = [];
+    let filtered: EventMessage = message;
+
+    switch (message.type) {
+      case EventType.page:
+      case EventType.track: {
+        const { properties } = message.event;
+        if (properties) {
+          filtered = {
+            ...message,
+            event: {
+              ...message.event,
+              properties: scrubObject(properties, '$.properties', redactions),
+            },
+          } as EventMessage;
+        }
+        break;
+      }
+      case EventType.identify:
+      case EventType.group: {
+        const { traits } = message.event;
+        if (traits) {
+          filtered = {
+            ...message,
+            event: {
+              ...message.event,
+              traits: scrubObject(traits, '$.traits', redactions),
+            },
+          } as EventMessage;
+        }
+        break;
+      }
+    }
+
+    if (redactions.length && onRedact) {
+      onRedact(filtered, redactions);
+    }
+    return filtered;
+  };
+}
@@ -1,7 +1,16 @@
-import React, { createContext, useMemo, useContext, useEffect } from 'react';
-import { SegmentClient } from './client';
-import { loadSegmentSnippet } from './load';
-import { Analytics } from './types';
+import React, {
+  createContext,
+  useMemo,
+  useContext,
+  useEffect,
+  useRef,
+} from 'react';
+import { SegmentClient, ClientOptions } from './client';
+import { Analytics, TrackingPlan } from './types';
+import { Consent } from './consent';
+import { PageTrackingOptions, useClientPageTracking } from './pages';
+import { FanOut, fanOut } from './fanout';
+import { consoleLogger } from './logger';
 
 declare global {
   interface Window {
@@ -18,84 +27,259 @@ export const SegmentContext = createContext<SegmentClient | undefined>(
 );
 
 /**
- * The provider props. The API key is for the Segment source.
+ * Every client added by a <SegmentProvider> higher up in the tree, by name. The unnamed client is "default".
+ */
+export const SegmentClientsContext = createContext<
+  Record<string, SegmentClient>
+>({});
+
+/**
+ * The options for useSegmentClient. Consent can be given as the current consent state, or as a function that
+ * returns it, for example by reading it from a consent management platform.
  */
-interface SegmentProviderProps {
-  apiKey: string;
-  debug?: boolean;
-  timeout?: number;
-  anonymizeIp?: boolean;
+interface SegmentClientOptions
+  extends Omit<ClientOptions, 'consent' | 'requireConsent'> {
   autoload?: boolean;
-  children: React.ReactNode;
+  consent?: Consent | (() => Consent | Promise<Consent>);
 }
 
-interface SegmentClientOptions {
-  apiKey: string;
-  debug?: boolean;
-  timeout?: number;
-  anonymizeIp?: boolean;
-  autoload?: boolean;
+/**
+ * The provider props. The API key is for the Segment source.
+ */
+interface SegmentProviderProps extends SegmentClientOptions {
+  children: React.ReactNode;
+  trackPages?: boolean | PageTrackingOptions;
 }
 
 /**
  * Create a Segment client. The client will maintain it's identity while the options are unchanged between renders.
+ * Object and function options, like the tracking plan or privacy rules, are usually written inline so they are
+ * only read when the client is created.
+ *
+ * analytics.js is loaded straight away unless `autoload` is false, in which case you need to call `client.load()`
+ * yourself. Either way it isn't loaded until the user has consented, if consent is required.
  * @param options
  */
-export function useSegmentClient(options: SegmentClientOptions): SegmentClient {
-  const { apiKey, debug, timeout, anonymizeIp } = options;
+export function useSegmentClient<Plan extends TrackingPlan = TrackingPlan>(
+  options: SegmentClientOptions
+): SegmentClient<Plan> {
+  const {
+    apiKey,
+    name,
+    transport,
+    apiHost,
+    cdnHost,
+    scriptUrl,
+    nonce,
+    integrity,
+    crossOrigin,
+    scriptTimeout,
+    scriptRetries,
+    scriptRetryDelay,
+    debug,
+    timeout,
+    callbackTimeout,
+    anonymizeIp,
+    maxQueueSize,
+    queuePolicy,
+    loadTimeout,
+    loadErrorPolicy,
+    persistKey,
+    consentPolicy,
+    consent,
+    autoload = true,
+  } = options;
 
-  const client = useMemo(
-    () =>
-      new SegmentClient({
-        apiKey,
-        debug,
-        timeout,
-        anonymizeIp,
-      }),
-    [apiKey, debug, timeout, anonymizeIp]
-  );
+  // Read when the client is created, so a new client gets the options from the render that created it
+  const latestOptions = useRef(options);
+  latestOptions.current = options;
 
-  useEffect(() => {
-    loadSegmentSnippet({ apiKey, debug }).then(analytics => {
-      if (analytics) {
-        client.initialize(analytics);
-      }
+  const client = useMemo(() => {
+    const {
+      persist,
+      trackingPlan,
+      onViolation,
+      privacy,
+      consentCategories,
+      sampleRates,
+      analytics,
+      logger,
+      consent: initialConsent,
+    } = latestOptions.current;
+
+    return new SegmentClient<Plan>({
+      apiKey,
+      name,
+      transport,
+      apiHost,
+      cdnHost,
+      scriptUrl,
+      nonce,
+      integrity,
+      crossOrigin,
+      scriptTimeout,
+      scriptRetries,
+      scriptRetryDelay,
+      debug,
+      timeout,
+      callbackTimeout,
+      anonymizeIp,
+      maxQueueSize,
+      queuePolicy,
+      loadTimeout,
+      loadErrorPolicy,
+      persist,
+      persistKey,
+      trackingPlan,
+      onViolation,
+      privacy,
+      requireConsent: initialConsent !== undefined,
+      consent: typeof initialConsent === 'object' ? initialConsent : undefined,
+      consentPolicy,
+      consentCategories,
+      sampleRates,
+      analytics,
+      logger,
     });
-  }, [apiKey, client, debug]);
+  }, [
+    apiKey,
+    name,
+    transport,
+    apiHost,
+    cdnHost,
+    scriptUrl,
+    nonce,
+    integrity,
+    crossOrigin,
+    scriptTimeout,
+    scriptRetries,
+    scriptRetryDelay,
+    debug,
+    timeout,
+    callbackTimeout,
+    anonymizeIp,
+    maxQueueSize,
+    queuePolicy,
+    loadTimeout,
+    loadErrorPolicy,
+    persistKey,
+    consentPolicy,
+  ]);
+
+  useEffect(() => {
+    if (typeof consent === 'object') {
+      client.setConsent(consent);
+    }
+  }, [client, consent]);
+
+  useEffect(() => {
+    const {
+      consent: getConsent,
+      logger = consoleLogger,
+    } = latestOptions.current;
+    if (typeof getConsent === 'function') {
+      // Catch synchronous errors too, so a failed lookup is logged like a rejected one
+      new Promise<Consent>(resolve => resolve(getConsent()))
+        .then(value => client.setConsent(value))
+        .catch(error => logger.warn('[Segment] Failed to read consent', error));
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (autoload) {
+      client.load();
+    }
+  }, [autoload, client]);
+
+  useEffect(
+    () => () => {
+      client.destroy();
+    },
+    [client]
+  );
 
   return client;
 }
 
 /**
  * Load the Segment snippet and add it to the app context. This client will be available before the script
- * has finished loading so that it doesn't block page rendering.
+ * has finished loading so that it doesn't block page rendering. Set `trackPages` to track page views
+ * automatically, see usePageTracking.
+ *
+ * Give the provider a `name` to send to another Segment source. Named clients get their own instance of
+ * analytics.js and are only returned by `useSegment(name)`, so they can be nested inside the default provider.
  * @param props SegmentProviderProps
  */
 export function SegmentProvider(props: SegmentProviderProps): JSX.Element {
-  const { apiKey, children, debug, timeout, anonymizeIp } = props;
+  const { children, trackPages, ...options } = props;
+  const { name } = options;
+  const client = useSegmentClient(options);
+  useClientPageTracking(
+    client,
+    typeof trackPages === 'object' ? trackPages : undefined,
+    !!trackPages
+  );
 
-  const client = useSegmentClient({
-    apiKey,
-    debug,
-    timeout,
-    anonymizeIp,
-  });
+  const parent = useContext(SegmentClientsContext);
+  const clients = useMemo(() => ({ ...parent, [name || 'default']: client }), [
+    client,
+    name,
+    parent,
+  ]);
 
+  const tree = (
+    <SegmentClientsContext.Provider value={clients}>
+      {children}
+    </SegmentClientsContext.Provider>
+  );
+  if (name) return tree;
   return (
-    <SegmentContext.Provider value={client}>{children}</SegmentContext.Provider>
+    <SegmentContext.Provider value={client}>{tree}</SegmentContext.Provider>
   );
 }
 
 /**
  * Return the Segment client added by <SegmentProvider>. This provider must be added higher up in the React tree to
- * be able to use this hook.
+ * be able to use this hook. Pass your tracking plan type to type-check the events you send.
+ * @param name The name of the provider, if it isn't the default one
  */
-export function useSegment(): SegmentClient {
-  const client = useContext(SegmentContext);
+export function useSegment<Plan extends TrackingPlan = TrackingPlan>(
+  name?: string
+): SegmentClient<Plan> {
+  const defaultClient = useContext(SegmentContext);
+  const clients = useContext(SegmentClientsContext);
+  const client = name ? clients[name] : defaultClient;
   if (!client) {
     throw new Error(
-      'The useSegment hook needs <SegmentProvider> to be present higher in the React tree.'
+      name
+        ? `The useSegment hook needs <SegmentProvider name="${name}"> to be present higher in the React tree.`
+        : 'The useSegment hook needs <SegmentProvider> to be present higher in the React tree.'
     );
   }
-  return client;
+  return client as SegmentClient<Plan>;
+}
+
+/**
+ * Return a client that sends every call to several of the clients added by <SegmentProvider>. Use "default" for
+ * the unnamed provider.
+ * @param names
+ */
+export function useSegments(names: string[]): FanOut {
+  const clients = useContext(SegmentClientsContext);
+  const key = names.join('\n');
+  return useMemo(
+    () =>
+      fanOut(
+        key.split('\n').map(name => {
+          const client = clients[name];
+          if (!client) {
+            throw new Error(
+              `The useSegments hook needs <SegmentProvider name="${name}"> to be present higher in the React tree.`
+            );
+          }
+          return client;
+        })
+      ),
+    [clients, key]
+  );
 }
@@ -0,0 +1,67 @@
+/**
+ * What to do when an item is added to a queue that is already full. Either the oldest item is removed to make
+ * room for the new one, or the new item is rejected.
+ */
+export type QueuePolicy = 'drop-oldest' | 'drop-newest';
+
+interface Options {
+  maxSize?: number;
+  policy?: QueuePolicy;
+}
+
+/**
+ * A first-in, first-out queue with an optional size limit.
+ */
+export class Queue<T> {
+  private items: T[] = [];
+
+  private options: Options;
+
+  constructor(options: Options = {}) {
+    this.options = options;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an item to the end of the queue. If the queue is full, the item that was dropped to enforce
+   * the size limit is returned. Depending on the policy this is either the oldest item or the new one.
+   * @param item
+   */
+  push(item: T): T | undefined {
+    const { maxSize = Infinity, policy = 'drop-oldest' } = this.options;
+    if (maxSize <= 0) return item;
+    if (this.items.length < maxSize) {
+      this.items.push(item);
+      return undefined;
+    }
+    if (policy === 'drop-newest') return item;
+    this.items.push(item);
+    return this.items.shift();
+  }
+
+  /**
+   * Remove and return the item at the front of the queue.
+   */
+  shift(): T | undefined {
+    return this.items.shift();
+  }
+
+  /**
+   * Return a copy of the items in the order they will be removed.
+   */
+  toArray(): T[] {
+    return this.items.slice();
+  }
+
+  /**
+   * Remove every item from the queue and return them.
+   */
+  clear(): T[] {
+    const items = this.items;
+    this.items = [];
+    return items;
+  }
+}
@@ -0,0 +1,14 @@
+import { HttpAnalytics, HttpAnalyticsOptions } from './http';
+
+export type ServerAnalyticsOptions = HttpAnalyticsOptions;
+
+/**
+ * An analytics.js replacement for the server, for example in API routes or while rendering pages. Calls are sent
+ * to the Segment HTTP Tracking API in batches. Pass it to SegmentClient as the `analytics` option:
+ *
+ * const analytics = new SegmentClient({ apiKey, analytics: new ServerAnalytics({ writeKey: apiKey }) });
+ *
+ * Messages are sent once 20 are waiting or after 10 seconds. Serverless functions can be frozen as soon as they
+ * respond, so call `flush` before responding.
+ */
+export class ServerAnalytics extends HttpAnalytics {}
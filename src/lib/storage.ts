@@ -0,0 +1,109 @@
+import { EventType, QueuedMessage } from './types';
+
+/**
+ * The subset of the Web Storage API used to persist messages. localStorage and sessionStorage can be
+ * used directly, or you can provide your own implementation.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Where undelivered messages should be persisted between page loads.
+ */
+export type Persistence = 'localStorage' | 'sessionStorage' | StorageAdapter;
+
+/**
+ * Message types that can be serialized. Link and form bindings hold DOM elements so they can't be replayed.
+ */
+const persistableTypes: string[] = [
+  EventType.page,
+  EventType.identify,
+  EventType.track,
+  EventType.group,
+  EventType.alias,
+  'reset',
+  'setAnonymousId',
+];
+
+/**
+ * Create a storage adapter that keeps everything in memory. This is mostly useful for tests.
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => (items.has(key) ? (items.get(key) as string) : null),
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Return the storage adapter for the persistence option. Browser storage is unavailable on the server and
+ * can throw when it's disabled, for example in some private browsing modes, so this returns undefined then.
+ * @param persistence
+ */
+export function resolveStorage(
+  persistence: Persistence
+): StorageAdapter | undefined {
+  if (typeof persistence !== 'string') return persistence;
+  if (typeof window === 'undefined') return undefined;
+  try {
+    return window[persistence];
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Read the persisted messages. Anything that can't be parsed is ignored.
+ * @param storage
+ * @param key
+ */
+export function readMessages(
+  storage: StorageAdapter,
+  key: string
+): QueuedMessage[] {
+  try {
+    const value = storage.getItem(key);
+    if (!value) return [];
+    const messages: QueuedMessage[] = JSON.parse(value);
+    return messages.map(message => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    }));
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Write the messages to storage, or remove the key when there is nothing left to deliver.
+ * @param storage
+ * @param key
+ * @param messages
+ */
+export function writeMessages(
+  storage: StorageAdapter,
+  key: string,
+  messages: QueuedMessage[]
+): void {
+  const persistable = messages.filter(
+    message => persistableTypes.indexOf(message.type) >= 0
+  );
+  try {
+    if (persistable.length) {
+      storage.setItem(key, JSON.stringify(persistable));
+    } else {
+      storage.removeItem(key);
+    }
+  } catch (error) {
+    // Storage can be full or disabled. Losing the backup shouldn't break tracking.
+  }
+}
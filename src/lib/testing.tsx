@@ -0,0 +1,266 @@
+import React, { useContext, useMemo, useState } from 'react';
+import { SegmentClient, ClientOptions } from './client';
+import { HttpAnalytics, Payload } from './http';
+import { SegmentClientsContext, SegmentContext } from './provider';
+import {
+  EventType,
+  Message,
+  PageEvent,
+  Properties,
+  SegmentOpts,
+  TrackEvent,
+  TrackingPlan,
+  IdentifyEvent,
+} from './types';
+
+/**
+ * An analytics.js stand-in that keeps every call it receives instead of sending it. The user and event listeners
+ * work like they do in HttpAnalytics, and callbacks are called straight away, so the client's promises resolve as
+ * soon as a call has been recorded.
+ */
+class RecordingAnalytics extends HttpAnalytics {
+  calls: Message[] = [];
+
+  constructor() {
+    super({ writeKey: 'test' });
+  }
+
+  identify(
+    userId: string,
+    traits: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.record({
+      type: EventType.identify,
+      event: { userId, traits, options },
+    });
+    super.identify(userId, traits, options, callback);
+  }
+
+  track(
+    event: string,
+    properties: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.record({
+      type: EventType.track,
+      event: { event, properties, options },
+    });
+    super.track(event, properties, options, callback);
+  }
+
+  page(
+    category?: string,
+    name?: string,
+    properties: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.record({
+      type: EventType.page,
+      event: { category, name, properties, options },
+    });
+    super.page(category, name, properties, options, callback);
+  }
+
+  group(
+    groupId: string,
+    traits: Properties = {},
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.record({ type: EventType.group, event: { groupId, traits, options } });
+    super.group(groupId, traits, options, callback);
+  }
+
+  alias(
+    userId: string,
+    previousId?: string,
+    options?: SegmentOpts,
+    callback?: () => void
+  ): void {
+    this.record({
+      type: EventType.alias,
+      event: { userId, previousId, options },
+    });
+    super.alias(userId, previousId, options, callback);
+  }
+
+  trackLink(
+    elements: Element | Element[],
+    event: string,
+    properties?: Properties
+  ): void {
+    this.record({ type: 'trackLink', event: { elements, event, properties } });
+  }
+
+  trackForm(
+    elements: Element | Element[],
+    event: string,
+    properties?: Properties
+  ): void {
+    this.record({ type: 'trackForm', event: { elements, event, properties } });
+  }
+
+  reset(): void {
+    super.reset();
+    this.record({ type: 'reset', event: {} });
+  }
+
+  setAnonymousId(anonymousId: string): void {
+    super.setAnonymousId(anonymousId);
+    this.record({ type: 'setAnonymousId', event: { anonymousId } });
+  }
+
+  /**
+   * Nothing is sent, so the callback is called straight away.
+   */
+  protected enqueue(_payload: Payload, callback?: () => void): void {
+    if (callback) callback();
+  }
+
+  private record(message: Message): void {
+    this.calls.push(message);
+  }
+}
+
+export interface MockSegmentOptions
+  extends Partial<Omit<ClientOptions, 'analytics' | 'transport'>> {
+  /**
+   * Pretend analytics.js takes this many milliseconds to load. Calls are queued until then, like they are in the
+   * browser. By default the client is ready straight away.
+   */
+  initializeAfter?: number;
+  /**
+   * Pretend analytics.js failed to load with this error, after `initializeAfter` if it's set.
+   */
+  loadError?: Error;
+}
+
+/**
+ * A SegmentClient for tests that records calls instead of sending them. Everything else works like the real client,
+ * so the tracking plan, middleware, consent and queueing all apply, and only calls that would have reached
+ * analytics.js are recorded.
+ */
+export class MockSegmentClient<
+  Plan extends TrackingPlan = TrackingPlan
+> extends SegmentClient<Plan> {
+  private recorder = new RecordingAnalytics();
+
+  constructor(options: MockSegmentOptions = {}) {
+    super({ apiKey: 'test', ...options });
+    const { initializeAfter, loadError } = options;
+    const settle = () => {
+      if (loadError) {
+        this.fail(loadError);
+      } else {
+        this.initialize(this.recorder);
+      }
+    };
+    if (initializeAfter === undefined) {
+      settle();
+    } else {
+      setTimeout(settle, initializeAfter);
+    }
+  }
+
+  /**
+   * Nothing is loaded. The promise resolves once the client is ready or has failed.
+   */
+  load(): Promise<void> {
+    return this.ready().catch(() => undefined);
+  }
+
+  /**
+   * Every call that reached analytics.js, oldest first.
+   */
+  get calls(): Message[] {
+    return this.recorder.calls.slice();
+  }
+
+  /**
+   * Return the recorded calls of one type.
+   * @param type
+   */
+  getCalls(type: Message['type']): Message[] {
+    return this.recorder.calls.filter(call => call.type === type);
+  }
+
+  /**
+   * Return the recorded track calls, optionally only those for one event.
+   * @param event The name of the event
+   */
+  getTrackedEvents(event?: string): TrackEvent[] {
+    return this.recorder.calls
+      .map(call => (call.type === EventType.track ? call.event : undefined))
+      .filter(
+        (call): call is TrackEvent =>
+          !!call && (event === undefined || call.event === event)
+      );
+  }
+
+  /**
+   * Return the recorded page calls.
+   */
+  getPages(): PageEvent[] {
+    return this.getCalls(EventType.page).map(call => call.event as PageEvent);
+  }
+
+  /**
+   * Return the recorded identify calls.
+   */
+  getIdentifies(): IdentifyEvent[] {
+    return this.getCalls(EventType.identify).map(
+      call => call.event as IdentifyEvent
+    );
+  }
+
+  /**
+   * Forget every recorded call, for example between the steps of a test.
+   */
+  clearCalls(): void {
+    this.recorder.calls = [];
+  }
+}
+
+interface MockSegmentProviderProps extends MockSegmentOptions {
+  /**
+   * The client to provide. When it's left out, one is created from the other props and can be read with
+   * `useSegment()`.
+   */
+  client?: MockSegmentClient;
+  children: React.ReactNode;
+}
+
+/**
+ * Use in place of <SegmentProvider> in tests and stories. Nothing is loaded, and every call is recorded by the
+ * MockSegmentClient.
+ * @param props
+ */
+export function MockSegmentProvider(
+  props: MockSegmentProviderProps
+): JSX.Element {
+  const { client: given, children, ...options } = props;
+  const [created] = useState(() => given || new MockSegmentClient(options));
+  const client = given || created;
+  const { name } = options;
+
+  const parent = useContext(SegmentClientsContext);
+  const clients = useMemo(() => ({ ...parent, [name || 'default']: client }), [
+    client,
+    name,
+    parent,
+  ]);
+
+  const tree = (
+    <SegmentClientsContext.Provider value={clients}>
+      {children}
+    </SegmentClientsContext.Provider>
+  );
+  if (name) return tree;
+  return (
+    <SegmentContext.Provider value={client}>{tree}</SegmentContext.Provider>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Let a Node process exit while the timer is still waiting, so it isn't kept alive just to send analytics. Browser
+ * timers are plain numbers and are left alone.
+ * @param timer
+ */
+export function unref<T>(timer: T): T {
+  const nodeTimer = (timer as unknown) as { unref?: () => void };
+  if (typeof nodeTimer.unref === 'function') nodeTimer.unref();
+  return timer;
+}
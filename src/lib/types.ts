@@ -12,6 +12,17 @@ export interface SegmentOpts {
   integrations?: any;
   anonymousId?: string;
   context?: object;
+  timestamp?: Date | string;
+  messageId?: string;
+}
+
+/**
+ * The user stored by analytics.js in cookies and local storage.
+ */
+export interface AnalyticsUser {
+  id(): string | null;
+  anonymousId(): string | null;
+  traits(): Properties;
 }
 
 export interface Analytics {
@@ -46,7 +57,18 @@ export interface Analytics {
     options?: SegmentOpts,
     callback?: () => void
   ): void;
+  trackLink(
+    elements: Element | Element[],
+    event: string,
+    properties?: Properties
+  ): void;
+  trackForm(
+    elements: Element | Element[],
+    event: string,
+    properties?: Properties
+  ): void;
   ready(callback: () => void): void;
+  user(): AnalyticsUser;
   reset(): void;
   debug(state?: boolean): void;
   setAnonymousId(id: string): void;
@@ -77,6 +99,16 @@ export interface Analytics {
   ): void;
 }
 
+/**
+ * A listener for the events analytics.js emits for every call. It's called with the arguments the call was sent
+ * with, like the event name, properties and options of a track call.
+ */
+export type AnalyticsListener = (
+  event: string,
+  properties?: Properties,
+  options?: SegmentOpts
+) => void;
+
 export interface PageEvent {
   name?: string;
   category?: string;
@@ -84,15 +116,18 @@ export interface PageEvent {
   options?: SegmentOpts;
 }
 
-export interface IdentifyEvent {
+export interface IdentifyEvent<Traits extends object = Properties> {
   userId: string;
-  traits?: Properties;
+  traits?: Partial<Traits>;
   options?: SegmentOpts;
 }
 
-export interface TrackEvent {
-  event: string;
-  properties?: Properties;
+export interface TrackEvent<
+  Name extends string = string,
+  EventProperties extends object = Properties
+> {
+  event: Name;
+  properties?: EventProperties;
   options?: SegmentOpts;
 }
 
@@ -102,9 +137,9 @@ export interface AliasEvent {
   options?: SegmentOpts;
 }
 
-export interface GroupEvent {
+export interface GroupEvent<Traits extends object = Properties> {
   groupId: string;
-  traits?: Properties;
+  traits?: Partial<Traits>;
   options?: SegmentOpts;
 }
 
@@ -113,3 +148,115 @@ export interface TrackElementEvent {
   event: string;
   properties?: Properties;
 }
+
+/**
+ * A page, identify, track, group or alias call. These are the calls that go through middleware.
+ */
+export type EventMessage =
+  | { type: EventType.page; event: PageEvent }
+  | { type: EventType.identify; event: IdentifyEvent }
+  | { type: EventType.track; event: TrackEvent }
+  | { type: EventType.group; event: GroupEvent }
+  | { type: EventType.alias; event: AliasEvent };
+
+/**
+ * A call to one of the Segment methods, before it has been sent to analytics.js.
+ */
+export type Message =
+  | EventMessage
+  | { type: 'trackLink'; event: TrackElementEvent }
+  | { type: 'trackForm'; event: TrackElementEvent }
+  | { type: 'reset'; event: {} }
+  | { type: 'setAnonymousId'; event: { anonymousId: string } };
+
+/**
+ * Who the current user is. The user ID is only set once they've been identified.
+ */
+export interface Identity<Traits extends object = Properties> {
+  userId?: string;
+  anonymousId?: string;
+  traits: Partial<Traits>;
+}
+
+/**
+ * A message waiting for analytics.js to load, along with the time it was called and a unique ID.
+ */
+export type QueuedMessage = Message & { timestamp: Date; messageId: string };
+
+/**
+ * A tracking plan describes the events your app sends and the properties of each one, along with the traits
+ * for identify and group calls. Pass your own plan to `SegmentClient` or `useSegment` to type-check calls:
+ *
+ * interface Plan {
+ *   events: {
+ *     'Purchase Card': { color: 'red' | 'yellow' };
+ *   };
+ *   traits: { plan: string };
+ * }
+ *
+ * Anything missing from the plan falls back to untyped properties.
+ */
+export interface TrackingPlan {
+  events?: object;
+  traits?: object;
+  groupTraits?: object;
+}
+
+type PlanEvents<Plan extends TrackingPlan> = Plan extends { events: infer E }
+  ? E
+  : Record<string, Properties>;
+
+/**
+ * The names of the events in a tracking plan.
+ */
+export type EventName<Plan extends TrackingPlan> = Extract<
+  keyof PlanEvents<Plan>,
+  string
+>;
+
+/**
+ * The properties of a single event in a tracking plan.
+ */
+export type EventProperties<
+  Plan extends TrackingPlan,
+  Name extends EventName<Plan>
+> = PlanEvents<Plan>[Name] extends object ? PlanEvents<Plan>[Name] : Properties;
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? never : K;
+}[keyof T];
+
+/**
+ * A track call for an event in a tracking plan. The properties can only be left out when the event has no
+ * required properties.
+ */
+export type PlanTrackEvent<
+  Plan extends TrackingPlan,
+  Name extends EventName<Plan>
+> = [RequiredKeys<EventProperties<Plan, Name>>] extends [never]
+  ? TrackEvent<Name, EventProperties<Plan, Name>>
+  : TrackEvent<Name, EventProperties<Plan, Name>> & {
+      properties: EventProperties<Plan, Name>;
+    };
+
+/**
+ * The traits for identify calls in a tracking plan.
+ */
+export type UserTraits<Plan extends TrackingPlan> = Plan extends {
+  traits: infer T;
+}
+  ? T extends object
+    ? T
+    : Properties
+  : Properties;
+
+/**
+ * The traits for group calls in a tracking plan.
+ */
+export type GroupTraits<Plan extends TrackingPlan> = Plan extends {
+  groupTraits: infer T;
+}
+  ? T extends object
+    ? T
+    : Properties
+  : Properties;
@@ -0,0 +1,11 @@
+/**
+ * Generate a random version 4 UUID. This isn't cryptographically secure, it only needs to be unique
+ * enough to identify messages and anonymous users.
+ */
+export function uuid(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
@@ -0,0 +1,224 @@
+import { EventType, Message } from './types';
+
+type SchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * The subset of JSON Schema supported when validating events.
+ */
+export interface JSONSchema {
+  type?: SchemaType | SchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * A runtime tracking plan. Each event name maps to a schema for its properties, and identify and group
+ * calls can have schemas for their traits.
+ */
+export interface TrackingPlanSchema {
+  events?: Record<string, JSONSchema>;
+  traits?: JSONSchema;
+  groupTraits?: JSONSchema;
+  allowUnplannedEvents?: boolean;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * A call that doesn't match the tracking plan.
+ */
+export interface Violation {
+  message: Message;
+  errors: SchemaError[];
+}
+
+/**
+ * What to do with calls that don't match the tracking plan. They can be logged, rejected or dropped, or
+ * passed to your own handler and sent anyway.
+ */
+export type ViolationPolicy =
+  | 'warn'
+  | 'throw'
+  | 'drop'
+  | ((violation: Violation) => void);
+
+/**
+ * The error used to reject calls that don't match the tracking plan when the policy is "throw".
+ */
+export class TrackingPlanError extends Error {
+  violation: Violation;
+
+  constructor(violation: Violation) {
+    super(
+      `[Segment] ${describe(
+        violation.message
+      )} doesn't match the tracking plan: ${violation.errors
+        .map(error => `${error.path} ${error.message}`)
+        .join(', ')}`
+    );
+    this.name = 'TrackingPlanError';
+    this.violation = violation;
+    Object.setPrototypeOf(this, TrackingPlanError.prototype);
+  }
+}
+
+function describe(message: Message): string {
+  if (message.type === EventType.track) return `"${message.event.event}"`;
+  return `The ${message.type} call`;
+}
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a schema and return every error found. An empty array means the value is valid.
+ * @param schema
+ * @param value
+ * @param path The path to the value, used in error messages
+ */
+export function validateSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path = '$'
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const error = (message: string) => errors.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      error(`should be ${types.join(' or ')}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    error(`should be one of ${schema.enum.map(String).join(', ')}`);
+  }
+
+  if ('const' in schema && schema.const !== value) {
+    error(`should be ${String(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      error(`should have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      error(`should have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      error(`should match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      error(`should be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      error(`should be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const { items } = schema;
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(items, item, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const { properties = {}, required = [] } = schema;
+    required.forEach(key => {
+      if (object[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    });
+    Object.keys(object).forEach(key => {
+      if (properties[key]) {
+        if (object[key] !== undefined) {
+          errors.push(
+            ...validateSchema(properties[key], object[key], `${path}.${key}`)
+          );
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Check a message against the tracking plan. Only track, identify and group calls are validated.
+ * @param plan
+ * @param message
+ */
+export function validateMessage(
+  plan: TrackingPlanSchema,
+  message: Message
+): Violation | undefined {
+  let errors: SchemaError[] = [];
+
+  switch (message.type) {
+    case EventType.track: {
+      const { event, properties = {} } = message.event;
+      const schema = plan.events && plan.events[event];
+      if (schema) {
+        errors = validateSchema(schema, properties, '$.properties');
+      } else if (plan.events && !plan.allowUnplannedEvents) {
+        errors = [{ path: '$.event', message: 'is not in the tracking plan' }];
+      }
+      break;
+    }
+    case EventType.identify: {
+      const { traits = {} } = message.event;
+      if (plan.traits) {
+        errors = validateSchema(plan.traits, traits, '$.traits');
+      }
+      break;
+    }
+    case EventType.group: {
+      const { traits = {} } = message.event;
+      if (plan.groupTraits) {
+        errors = validateSchema(plan.groupTraits, traits, '$.traits');
+      }
+      break;
+    }
+  }
+
+  return errors.length ? { message, errors } : undefined;
+}
@@ -0,0 +1,6 @@
+export {
+  MockSegmentClient,
+  MockSegmentOptions,
+  MockSegmentProvider,
+} from './lib/testing';
+export { segmentMatchers } from './lib/matchers';
@@ -0,0 +1,166 @@
+import { BrowserAnalytics, SegmentClient } from '../src';
+
+function createFetch() {
+  return jest.fn(() => Promise.resolve({ ok: true, status: 200 }));
+}
+
+function sentBatch(fetch: ReturnType<typeof createFetch>, call = 0): any[] {
+  const [, init] = (fetch.mock.calls[call] as unknown) as [
+    string,
+    { body: string }
+  ];
+  return JSON.parse(init.body).batch;
+}
+
+function clearCookies(): void {
+  document.cookie.split('; ').forEach(cookie => {
+    const [name] = cookie.split('=');
+    document.cookie = `${name}=; path=/; max-age=0`;
+  });
+}
+
+describe('BrowserAnalytics', () => {
+  beforeEach(() => {
+    clearCookies();
+    localStorage.clear();
+  });
+
+  it('should send calls made together in one batch to the host', async () => {
+    const fetch = createFetch();
+    const analytics = new BrowserAnalytics({
+      writeKey: 'key',
+      host: 'https://example.com/segment',
+      fetch,
+    });
+    analytics.track('Clicked', { button: 'buy' });
+    analytics.page(undefined, 'Home');
+    await analytics.flush();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://example.com/segment/v1/batch',
+      expect.objectContaining({ method: 'POST', keepalive: true })
+    );
+    const [track, page] = sentBatch(fetch);
+    expect(track).toEqual(
+      expect.objectContaining({
+        type: 'track',
+        event: 'Clicked',
+        properties: { button: 'buy' },
+        anonymousId: expect.any(String),
+        messageId: expect.any(String),
+        timestamp: expect.any(String),
+      })
+    );
+    expect(track.context).toEqual(
+      expect.objectContaining({
+        page: expect.objectContaining({ url: window.location.href }),
+        userAgent: navigator.userAgent,
+      })
+    );
+    expect(page.properties).toEqual(
+      expect.objectContaining({ path: window.location.pathname })
+    );
+  });
+
+  it('should keep the user in the analytics.js cookies', async () => {
+    document.cookie = `ajs_anonymous_id=${encodeURIComponent(
+      '"anonymous"'
+    )}; path=/`;
+    const fetch = createFetch();
+    const analytics = new BrowserAnalytics({ writeKey: 'key', fetch });
+    expect(analytics.user().anonymousId()).toBe('anonymous');
+
+    analytics.identify('user-1', { plan: 'pro' });
+    const reloaded = new BrowserAnalytics({ writeKey: 'key', fetch });
+    expect(reloaded.user().id()).toBe('user-1');
+    expect(reloaded.user().traits()).toEqual({ plan: 'pro' });
+
+    reloaded.reset();
+    const loggedOut = new BrowserAnalytics({ writeKey: 'key', fetch });
+    expect(loggedOut.user().id()).toBeNull();
+    expect(loggedOut.user().anonymousId()).not.toBe('anonymous');
+  });
+
+  it('should use sendBeacon once the page is hidden', async () => {
+    const fetch = createFetch();
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    const analytics = new BrowserAnalytics({ writeKey: 'key', fetch });
+
+    analytics.track('Left Page');
+    window.dispatchEvent(new Event('pagehide'));
+    await analytics.flush();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(sendBeacon).toHaveBeenCalledWith(
+      'https://api.segment.io/v1/batch',
+      expect.stringContaining('"writeKey":"key"')
+    );
+    delete (navigator as any).sendBeacon;
+  });
+
+  it('should stop listening to the page once destroyed', async () => {
+    const fetch = createFetch();
+    const sendBeacon = jest.fn(() => true);
+    (navigator as any).sendBeacon = sendBeacon;
+    const analytics = new BrowserAnalytics({ writeKey: 'key', fetch });
+    await analytics.destroy();
+
+    window.dispatchEvent(new Event('pagehide'));
+    analytics.track('Left Page');
+    await analytics.flush();
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(fetch).toHaveBeenCalledTimes(1);
+    delete (navigator as any).sendBeacon;
+  });
+
+  it('should track clicks on bound links', async () => {
+    const fetch = createFetch();
+    const analytics = new BrowserAnalytics({ writeKey: 'key', fetch });
+    const link = document.createElement('a');
+    analytics.trackLink(link, 'Clicked Link', { href: '/pricing' });
+
+    link.dispatchEvent(new MouseEvent('click'));
+    await analytics.flush();
+    expect(sentBatch(fetch)[0]).toEqual(
+      expect.objectContaining({ event: 'Clicked Link' })
+    );
+  });
+});
+
+describe('SegmentClient with the http transport', () => {
+  afterEach(() => {
+    delete (window as any).fetch;
+  });
+
+  it('should send calls without loading analytics.js', async () => {
+    const fetch = createFetch();
+    (window as any).fetch = fetch;
+    const client = new SegmentClient({ apiKey: 'key', transport: 'http' });
+    const tracked = client.track({ event: 'Viewed' });
+    await client.load();
+
+    expect(client.status).toBe('ready');
+    expect(document.querySelector('script')).toBeNull();
+    await tracked;
+    expect(sentBatch(fetch)[0]).toEqual(
+      expect.objectContaining({ type: 'track', event: 'Viewed' })
+    );
+  });
+
+  it('should stop the transport listening to the page when destroyed', async () => {
+    (window as any).fetch = createFetch();
+    const client = new SegmentClient({ apiKey: 'key', transport: 'http' });
+    await client.load();
+    const removeEventListener = jest.spyOn(window, 'removeEventListener');
+
+    await client.destroy();
+    expect(removeEventListener).toHaveBeenCalledWith(
+      'pagehide',
+      expect.any(Function)
+    );
+    removeEventListener.mockRestore();
+  });
+});
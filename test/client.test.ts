@@ -1,4 +1,11 @@
-import { SegmentClient, Analytics } from '../src';
+import {
+  SegmentClient,
+  Analytics,
+  EventType,
+  createMemoryStorage,
+  HttpAnalytics,
+} from '../src';
+import { MockSegmentClient } from '../src/testing';
 
 function createFakeAnalytics(): Analytics {
   return {
@@ -8,7 +15,14 @@ function createFakeAnalytics(): Analytics {
     alias: jest.fn(),
     debug: jest.fn(),
     page: jest.fn(),
+    trackLink: jest.fn(),
+    trackForm: jest.fn(),
     ready: jest.fn(),
+    user: jest.fn(() => ({
+      id: () => null,
+      anonymousId: () => null,
+      traits: () => ({}),
+    })),
     reset: jest.fn(),
     timeout: jest.fn(),
     setAnonymousId: jest.fn(),
@@ -86,6 +100,663 @@ describe('SegmentClient', () => {
     expect(analytics.debug).toHaveBeenCalledWith(true);
   });
 
+  describe('queue', () => {
+    it('should send queued messages in the order they were called', () => {
+      const analytics = createFakeAnalytics();
+      const calls: string[] = [];
+      analytics.identify = () => calls.push('identify');
+      analytics.track = () => calls.push('track');
+      analytics.page = () => calls.push('page');
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.track({ event: 'Test' });
+      client.identify({ userId: '12345' });
+      client.page();
+      client.initialize(analytics);
+      expect(calls).toEqual(['track', 'identify', 'page']);
+    });
+
+    it('should return the queued messages', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.track({ event: 'Test' });
+      client.group({ groupId: 'Admin' });
+      const queue = client.getQueue();
+      expect(queue).toHaveLength(2);
+      expect(queue[0]).toMatchObject({
+        type: 'track',
+        event: { event: 'Test' },
+      });
+      expect(queue[0].timestamp).toBeInstanceOf(Date);
+      expect(queue[1]).toMatchObject({ type: 'group' });
+    });
+
+    it('should empty the queue once initialized', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.track({ event: 'Test' });
+      client.initialize(createFakeAnalytics());
+      expect(client.getQueue()).toEqual([]);
+    });
+
+    it('should drop the oldest message when the queue is full', async done => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        maxQueueSize: 2,
+      });
+      const first = client.track({ event: 'First' });
+      client.track({ event: 'Second' });
+      client.track({ event: 'Third' });
+      await first;
+      client.initialize(analytics);
+      expect(analytics.track).toHaveBeenCalledTimes(2);
+      expect((analytics.track as jest.Mock).mock.calls[0][0]).toBe('Second');
+      expect((analytics.track as jest.Mock).mock.calls[1][0]).toBe('Third');
+      done();
+    });
+
+    it('should drop the newest message when the queue is full and the policy is drop-newest', async done => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        maxQueueSize: 2,
+        queuePolicy: 'drop-newest',
+      });
+      client.track({ event: 'First' });
+      client.track({ event: 'Second' });
+      await client.track({ event: 'Third' });
+      client.initialize(analytics);
+      expect(analytics.track).toHaveBeenCalledTimes(2);
+      expect((analytics.track as jest.Mock).mock.calls[1][0]).toBe('Second');
+      done();
+    });
+
+    it('should resolve and discard cleared messages', async done => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      const promise = client.track({ event: 'Test' });
+      client.clearQueue();
+      await promise;
+      client.initialize(analytics);
+      expect(analytics.track).not.toHaveBeenCalled();
+      done();
+    });
+
+    it('should not register a listener for every queued message', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      for (let i = 0; i < 20; i++) {
+        client.track({ event: 'Test' });
+      }
+      expect(client.emitter.listenerCount('initialize')).toBe(0);
+    });
+  });
+
+  describe('.load()', () => {
+    afterEach(() => {
+      delete window.analytics;
+    });
+
+    it('should initialize the client with analytics.js', async done => {
+      const analytics = createFakeAnalytics();
+      window.analytics = analytics;
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.track({ event: 'Test' });
+      expect(client.status).toBe('pending');
+      const loading = client.load();
+      expect(client.status).toBe('loading');
+      expect(client.load()).toBe(loading);
+      await loading;
+      expect(client.status).toBe('ready');
+      expect(analytics.track).toHaveBeenCalled();
+      done();
+    });
+
+    it('should wait for consent before loading', async done => {
+      const analytics = createFakeAnalytics();
+      window.analytics = analytics;
+      const client = new SegmentClient({
+        apiKey: '1',
+        requireConsent: true,
+      });
+      const loading = client.load();
+      await Promise.resolve();
+      expect(client.status).toBe('loading');
+      client.setConsent({ analytics: true });
+      await loading;
+      expect(client.status).toBe('ready');
+      done();
+    });
+
+    it('should fail if analytics.js does not load in time', async done => {
+      jest.useFakeTimers();
+      const client = new SegmentClient({
+        apiKey: '1',
+        loadTimeout: 1000,
+      });
+      const promise = client.track({ event: 'Test' });
+      client.load();
+      await Promise.resolve();
+      jest.advanceTimersByTime(1000);
+      jest.useRealTimers();
+      await promise;
+      expect(client.status).toBe('failed');
+      done();
+    });
+
+    it('should give every script attempt time to load by default', async () => {
+      jest.useFakeTimers();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const flush = async () => {
+        for (let i = 0; i < 10; i++) await Promise.resolve();
+      };
+      const client = new SegmentClient({
+        apiKey: 'attempts',
+        scriptTimeout: 6000,
+        scriptRetries: 1,
+        scriptRetryDelay: 0,
+      });
+      const loading = client.load();
+      await flush();
+      jest.advanceTimersByTime(6000);
+      await flush();
+      jest.advanceTimersByTime(4500);
+      await flush();
+      expect(client.status).toBe('loading');
+
+      window.analytics = createFakeAnalytics();
+      const script = document.head.querySelector('script[src*="/attempts/"]');
+      script!.dispatchEvent(new Event('load'));
+      // Stop the scripts earlier tests left loading
+      jest.clearAllTimers();
+      jest.useRealTimers();
+      await loading;
+      expect(client.status).toBe('ready');
+      warn.mockRestore();
+    });
+  });
+
+  describe('.fail()', () => {
+    it('should resolve queued messages when analytics.js fails to load', async done => {
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      const promise = client.track({ event: 'Test' });
+      client.fail(new Error('Blocked'));
+      await promise;
+      expect(client.status).toBe('failed');
+      expect(client.getQueue()).toEqual([]);
+      done();
+    });
+
+    it('should resolve future calls straight away', async done => {
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.fail(new Error('Blocked'));
+      await client.track({ event: 'Test' });
+      await client.ready();
+      done();
+    });
+
+    it('should reject calls when the policy is reject', async done => {
+      const error = new Error('Blocked');
+      const client = new SegmentClient({
+        apiKey: '1',
+        loadErrorPolicy: 'reject',
+      });
+      const queued = client.identify({ userId: '12345' });
+      client.fail(error);
+      await expect(queued).rejects.toBe(error);
+      await expect(client.page()).rejects.toBe(error);
+      done();
+    });
+
+    it('should emit a loadError event', () => {
+      const onLoadError = jest.fn();
+      const error = new Error('Blocked');
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.emitter.on('loadError', onLoadError);
+      client.fail(error);
+      expect(onLoadError).toHaveBeenCalledWith(error);
+    });
+
+    it('should send calls if analytics.js loads after failing', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.fail(new Error('Timed out'));
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(client.status).toBe('ready');
+      expect(analytics.track).toHaveBeenCalled();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist queued messages to storage', () => {
+      const storage = createMemoryStorage();
+      const client = new SegmentClient({
+        apiKey: '1',
+        persist: storage,
+      });
+      client.track({ event: 'Test' });
+      const persisted = JSON.parse(storage.getItem('segment:1:queue') || '');
+      expect(persisted).toHaveLength(1);
+      expect(persisted[0]).toMatchObject({
+        type: 'track',
+        event: { event: 'Test' },
+      });
+    });
+
+    it('should replay persisted messages with their original timestamp and message ID', () => {
+      const storage = createMemoryStorage();
+      const analytics = createFakeAnalytics();
+      const previous = new SegmentClient({
+        apiKey: '1',
+        persist: storage,
+      });
+      previous.track({ event: 'Test' });
+      const [queued] = previous.getQueue();
+
+      const client = new SegmentClient({
+        apiKey: '1',
+        persist: storage,
+      });
+      expect(client.getQueue()).toEqual([queued]);
+      client.initialize(analytics);
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        expect.objectContaining({
+          messageId: queued.messageId,
+          timestamp: queued.timestamp,
+        }),
+        expect.any(Function)
+      );
+    });
+
+    it('should keep sent messages in storage until analytics.js calls back', () => {
+      const storage = createMemoryStorage();
+      const analytics = createFakeAnalytics();
+      let callback: (() => void) | undefined;
+      analytics.track = (_event, _properties, _options, cb) => {
+        callback = cb;
+      };
+      const client = new SegmentClient({
+        apiKey: '1',
+        persist: storage,
+      });
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(storage.getItem('segment:1:queue')).not.toBeNull();
+      if (callback) callback();
+      expect(storage.getItem('segment:1:queue')).toBeNull();
+    });
+
+    it('should keep messages persisted by other tabs', () => {
+      const storage = createMemoryStorage();
+      const first = new SegmentClient({ apiKey: '1', persist: storage });
+      const second = new SegmentClient({ apiKey: '1', persist: storage });
+      first.track({ event: 'First' });
+      second.track({ event: 'Second' });
+      const events = () =>
+        JSON.parse(storage.getItem('segment:1:queue') || '[]').map(
+          (message: { event: { event: string } }) => message.event.event
+        );
+      expect(events()).toEqual(['First', 'Second']);
+
+      const analytics = createFakeAnalytics();
+      analytics.track = (_event, _properties, _options, callback) => {
+        if (callback) callback();
+      };
+      first.initialize(analytics);
+      expect(events()).toEqual(['Second']);
+    });
+
+    it('should not persist link bindings', () => {
+      const storage = createMemoryStorage();
+      const client = new SegmentClient({
+        apiKey: '1',
+        persist: storage,
+        persistKey: 'queue',
+      });
+      client.trackLink({
+        elements: document.createElement('a'),
+        event: 'Clicked Link',
+      });
+      expect(storage.getItem('queue')).toBeNull();
+    });
+
+    it('should remove personal information before persisting messages', () => {
+      const storage = createMemoryStorage();
+      const client = new SegmentClient({
+        apiKey: '1',
+        persist: storage,
+        privacy: true,
+      });
+      client.identify({
+        userId: '1',
+        traits: { email: 'jane@example.com', plan: 'pro' },
+      });
+      const persisted = storage.getItem('segment:1:queue') as string;
+      expect(persisted).not.toContain('jane@example.com');
+      expect(persisted).toContain('pro');
+    });
+
+    it('should use localStorage', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+        persist: 'localStorage',
+      });
+      client.page();
+      expect(window.localStorage.getItem('segment:1:queue')).not.toBeNull();
+      client.clearQueue();
+      expect(window.localStorage.getItem('segment:1:queue')).toBeNull();
+    });
+  });
+
+  describe('tracking plan', () => {
+    interface Plan {
+      events: {
+        'Purchase Card': { color: 'red' | 'yellow' };
+        'Cancel Card': {};
+      };
+      traits: { plan: 'Free' | 'Premium' };
+    }
+
+    it('should accept events from the tracking plan', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient<Plan>({
+        apiKey: '1',
+      });
+      client.initialize(analytics);
+      client.track({
+        event: 'Purchase Card',
+        properties: { color: 'red' },
+      });
+      client.track({ event: 'Cancel Card' });
+      client.identify({ userId: '12345', traits: { plan: 'Premium' } });
+      client.group({ groupId: 'Admin', traits: { anything: true } });
+      expect(analytics.track).toHaveBeenCalledTimes(2);
+      expect(analytics.identify).toHaveBeenCalled();
+      expect(analytics.group).toHaveBeenCalled();
+    });
+  });
+
+  describe('.use()', () => {
+    it('should pass messages through middleware before sending them', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.use(message =>
+        message.type === 'track'
+          ? {
+              ...message,
+              event: {
+                ...message.event,
+                properties: { ...message.event.properties, version: '1.0' },
+              },
+            }
+          : message
+      );
+      client.track({ event: 'Test', properties: { test: '1' } });
+      client.initialize(analytics);
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Test',
+        { test: '1', version: '1.0' },
+        expect.anything(),
+        expect.any(Function)
+      );
+    });
+
+    it('should run middleware in the order it was added', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      const calls: string[] = [];
+      client.use(message => {
+        calls.push('first');
+        return message;
+      });
+      client.use(message => {
+        calls.push('second');
+        return message;
+      });
+      client.initialize(analytics);
+      client.page();
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should drop messages when middleware returns null', async done => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.use(message => (message.type === 'identify' ? null : message));
+      client.initialize(analytics);
+      await client.identify({ userId: '12345' });
+      client.page();
+      expect(analytics.identify).not.toHaveBeenCalled();
+      expect(analytics.page).toHaveBeenCalled();
+      done();
+    });
+
+    it('should remove middleware', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      const remove = client.use(() => null);
+      remove();
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(analytics.track).toHaveBeenCalled();
+    });
+
+    it('should run the privacy filter after other middleware', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        privacy: true,
+      });
+      client.use(message =>
+        message.type === 'track'
+          ? {
+              ...message,
+              event: {
+                ...message.event,
+                properties: { email: 'jane@example.com' },
+              },
+            }
+          : message
+      );
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Test',
+        { email: '[REDACTED]' },
+        expect.anything(),
+        expect.any(Function)
+      );
+    });
+
+    it('should anonymize the IP address without replacing the context', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        anonymizeIp: true,
+      });
+      client.initialize(analytics);
+      client.track({
+        event: 'Test',
+        options: { context: { locale: 'en-US' } },
+      });
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        { context: { locale: 'en-US', ip: '0.0.0.0' } },
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('consent', () => {
+    it('should queue calls until consent is granted', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        requireConsent: true,
+      });
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(client.hasConsent).toBe(false);
+      expect(analytics.track).not.toHaveBeenCalled();
+      client.setConsent({ analytics: true });
+      expect(analytics.track).toHaveBeenCalled();
+    });
+
+    it('should not send calls with consent to other categories only', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        consent: { functional: true },
+      });
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(client.hasConsent).toBe(false);
+      expect(analytics.track).not.toHaveBeenCalled();
+    });
+
+    it('should send calls with consent to the category of a destination', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        consent: { advertising: true },
+        consentCategories: { 'Facebook Pixel': 'advertising' },
+      });
+      client.initialize(analytics);
+      client.track({ event: 'Test' });
+      expect(client.hasConsent).toBe(true);
+      expect(analytics.track).toHaveBeenCalled();
+    });
+
+    it('should drop calls without consent when the policy is drop', async done => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        consent: { analytics: false },
+        consentPolicy: 'drop',
+      });
+      client.initialize(analytics);
+      await client.track({ event: 'Test' });
+      client.setConsent({ analytics: true });
+      expect(analytics.track).not.toHaveBeenCalled();
+      done();
+    });
+
+    it('should disable destinations the user has not consented to', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        consent: { analytics: true, advertising: false },
+        consentCategories: {
+          'Google Analytics': 'analytics',
+          'Facebook Pixel': 'advertising',
+        },
+      });
+      client.initialize(analytics);
+      client.track({
+        event: 'Test',
+        options: { integrations: { Intercom: false } },
+      });
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        { integrations: { Intercom: false, 'Facebook Pixel': false } },
+        expect.any(Function)
+      );
+    });
+
+    it('should keep sending calls when consent is revoked for one category without being required', async () => {
+      const client = new MockSegmentClient({
+        consentCategories: { 'Facebook Pixel': 'advertising' },
+      });
+      client.setConsent({ advertising: false });
+      expect(client.getConsent()).toEqual({
+        analytics: true,
+        advertising: false,
+        functional: true,
+      });
+      expect(client.hasConsent).toBe(true);
+      expect((await client.track({ event: 'Test' })).status).toBe('sent');
+      expect(client.getTrackedEvents('Test')[0].options).toEqual({
+        integrations: { 'Facebook Pixel': false },
+      });
+    });
+
+    it('should only send to consented destinations without consent to analytics', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        consent: { analytics: false, advertising: true, functional: true },
+        consentCategories: {
+          'Google Analytics': 'analytics',
+          'Facebook Pixel': 'advertising',
+          Intercom: 'functional',
+        },
+      });
+      client.initialize(analytics);
+      client.track({
+        event: 'Test',
+        options: { integrations: { All: true, Intercom: false } },
+      });
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Test',
+        undefined,
+        {
+          integrations: {
+            All: false,
+            'Google Analytics': false,
+            'Facebook Pixel': true,
+            Intercom: false,
+          },
+        },
+        expect.any(Function)
+      );
+    });
+
+    it('should emit a consent event when consent changes', () => {
+      const onConsent = jest.fn();
+      const client = new SegmentClient({
+        apiKey: '1',
+        consent: { analytics: true },
+      });
+      client.emitter.on('consent', onConsent);
+      client.setConsent({ analytics: true });
+      expect(onConsent).not.toHaveBeenCalled();
+      client.setConsent({ advertising: true });
+      expect(onConsent).toHaveBeenCalledWith({
+        analytics: true,
+        advertising: true,
+      });
+    });
+  });
+
   describe('.page()', () => {
     it('should queue up page events', () => {
       const analytics = createFakeAnalytics();
@@ -108,7 +779,10 @@ describe('SegmentClient', () => {
       const client = new SegmentClient({
         apiKey: '1',
       });
-      client.page().then(done);
+      client.page().then(result => {
+        expect(result.status).toBe('sent');
+        done();
+      });
       client.initialize(analytics);
     });
 
@@ -193,6 +867,128 @@ describe('SegmentClient', () => {
     });
   });
 
+  describe('.trackDebounced()', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should only send the last call once calls stop', async () => {
+      const analytics = createFakeAnalytics();
+      analytics.track = jest.fn((_event, _properties, _options, callback) => {
+        if (callback) callback();
+      });
+      const client = new SegmentClient({ apiKey: '1' });
+      client.initialize(analytics);
+
+      const first = client.trackDebounced(
+        { event: 'Searched', properties: { query: 'a' } },
+        300
+      );
+      jest.advanceTimersByTime(200);
+      const second = client.trackDebounced(
+        { event: 'Searched', properties: { query: 'ab' } },
+        300
+      );
+      jest.advanceTimersByTime(200);
+      expect(analytics.track).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(100);
+      await Promise.all([first, second]);
+      expect(analytics.track).toHaveBeenCalledTimes(1);
+      expect(analytics.track).toHaveBeenCalledWith(
+        'Searched',
+        { query: 'ab' },
+        {},
+        expect.any(Function)
+      );
+    });
+
+    it('should debounce events and keys separately', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({ apiKey: '1' });
+      client.initialize(analytics);
+
+      client.trackDebounced({ event: 'Searched' }, 300, 'header');
+      client.trackDebounced({ event: 'Searched' }, 300, 'sidebar');
+      client.trackDebounced({ event: 'Filtered' }, 300);
+      jest.advanceTimersByTime(300);
+      expect(analytics.track).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('.trackThrottled()', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should send the first and last call in each interval', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({ apiKey: '1' });
+      client.initialize(analytics);
+      const scroll = (depth: number) =>
+        client.trackThrottled(
+          { event: 'Scrolled', properties: { depth } },
+          1000
+        );
+
+      scroll(10);
+      scroll(20);
+      scroll(30);
+      expect(analytics.track).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      expect(analytics.track).toHaveBeenCalledTimes(2);
+      expect(analytics.track).toHaveBeenLastCalledWith(
+        'Scrolled',
+        { depth: 30 },
+        {},
+        expect.any(Function)
+      );
+
+      scroll(40);
+      expect(analytics.track).toHaveBeenCalledTimes(2);
+      jest.advanceTimersByTime(1000);
+      expect(analytics.track).toHaveBeenCalledTimes(3);
+
+      jest.advanceTimersByTime(1000);
+      scroll(50);
+      expect(analytics.track).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('sampling', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should only send the sampled share of an event', async () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+        sampleRates: { Scrolled: 0.25 },
+      });
+      client.initialize(analytics);
+      const random = jest.spyOn(Math, 'random');
+
+      random.mockReturnValue(0.5);
+      await client.track({ event: 'Scrolled' });
+      expect(analytics.track).not.toHaveBeenCalled();
+
+      random.mockReturnValue(0.1);
+      client.track({ event: 'Scrolled' });
+      client.track({ event: 'Clicked' });
+      expect(analytics.track).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('.identify()', () => {
     it('should queue up identify events', () => {
       const analytics = createFakeAnalytics();
@@ -250,6 +1046,151 @@ describe('SegmentClient', () => {
     });
   });
 
+  describe('.reset()', () => {
+    it('should queue up reset calls in order', () => {
+      const analytics = createFakeAnalytics();
+      const calls: string[] = [];
+      analytics.track = event => calls.push(event);
+      analytics.reset = () => calls.push('reset');
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.track({ event: 'Logged Out' });
+      client.reset();
+      client.initialize(analytics);
+      expect(calls).toEqual(['Logged Out', 'reset']);
+    });
+
+    it('should resolve once analytics.js has reset', async () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.initialize(analytics);
+      await client.reset();
+      expect(analytics.reset).toHaveBeenCalled();
+    });
+
+    it('should not let middleware drop resets', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({ apiKey: '1' });
+      client.use(message =>
+        ['track', 'identify', 'page'].includes(message.type) ? message : null
+      );
+      client.initialize(analytics);
+      client.reset();
+      client.setAnonymousId('anonymous');
+      expect(analytics.reset).toHaveBeenCalled();
+      expect(analytics.setAnonymousId).toHaveBeenCalledWith('anonymous');
+    });
+  });
+
+  describe('.user()', () => {
+    function createFakeUser(analytics: Analytics) {
+      const user = {
+        id: null as string | null,
+        anonymousId: 'anonymous' as string | null,
+        traits: {},
+      };
+      analytics.user = () => ({
+        id: () => user.id,
+        anonymousId: () => user.anonymousId,
+        traits: () => user.traits,
+      });
+      analytics.identify = (userId, traits = {}) => {
+        user.id = userId;
+        user.traits = traits;
+      };
+      analytics.reset = () => {
+        user.id = null;
+        user.anonymousId = 'new-anonymous';
+        user.traits = {};
+      };
+      return user;
+    }
+
+    it('should reflect queued calls before analytics.js loads', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      expect(client.user()).toEqual({ traits: {} });
+
+      client.identify({ userId: '1', traits: { plan: 'pro' } });
+      client.identify({ userId: '1', traits: { seats: 3 } });
+      expect(client.user()).toEqual({
+        userId: '1',
+        traits: { plan: 'pro', seats: 3 },
+      });
+
+      client.identify({ userId: '2', traits: { plan: 'free' } });
+      expect(client.user()).toEqual({ userId: '2', traits: { plan: 'free' } });
+
+      client.setAnonymousId('anonymous');
+      client.reset();
+      expect(client.user()).toEqual({ traits: {} });
+    });
+
+    it('should read the user from analytics.js once it has loaded', () => {
+      const analytics = createFakeAnalytics();
+      const user = createFakeUser(analytics);
+      user.id = 'returning';
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.initialize(analytics);
+      expect(client.user()).toEqual({
+        userId: 'returning',
+        anonymousId: 'anonymous',
+        traits: {},
+      });
+
+      client.reset();
+      expect(client.user()).toEqual({
+        anonymousId: 'new-anonymous',
+        traits: {},
+      });
+    });
+
+    it('should emit an identity event when the user changes', () => {
+      const analytics = createFakeAnalytics();
+      createFakeUser(analytics);
+      const onIdentity = jest.fn();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.emitter.on('identity', onIdentity);
+
+      client.identify({ userId: '1' });
+      expect(onIdentity).toHaveBeenLastCalledWith({
+        userId: '1',
+        traits: {},
+      });
+
+      client.initialize(analytics);
+      expect(onIdentity).toHaveBeenLastCalledWith({
+        userId: '1',
+        anonymousId: 'anonymous',
+        traits: {},
+      });
+
+      client.reset();
+      expect(onIdentity).toHaveBeenLastCalledWith({
+        anonymousId: 'new-anonymous',
+        traits: {},
+      });
+    });
+
+    it('should not drop resets without consent', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+        requireConsent: true,
+        consentPolicy: 'drop',
+      });
+      client.reset();
+      expect(client.getQueue().map(message => message.type)).toEqual(['reset']);
+    });
+  });
+
   describe('.alias()', () => {
     it('should queue up alias events', () => {
       const analytics = createFakeAnalytics();
@@ -359,4 +1300,316 @@ describe('SegmentClient', () => {
       client.initialize(analytics);
     });
   });
+
+  describe('.trackLink()', () => {
+    it('should queue up link bindings', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      const link = document.createElement('a');
+      client.trackLink({
+        elements: link,
+        event: 'Clicked Link',
+        properties: {
+          test: '1',
+        },
+      });
+      expect(analytics.trackLink).not.toHaveBeenCalled();
+      client.initialize(analytics);
+      expect(analytics.trackLink).toHaveBeenCalledWith(link, 'Clicked Link', {
+        test: '1',
+      });
+    });
+
+    it('should resolve once the link is bound', async done => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      client.initialize(analytics);
+      await client.trackLink({
+        elements: document.createElement('a'),
+        event: 'Clicked Link',
+      });
+      expect(analytics.trackLink).toHaveBeenCalled();
+      done();
+    });
+  });
+
+  describe('.trackForm()', () => {
+    it('should queue up form bindings', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({
+        apiKey: '1',
+      });
+      const form = document.createElement('form');
+      client.trackForm({
+        elements: [form],
+        event: 'Submitted Form',
+      });
+      expect(analytics.trackForm).not.toHaveBeenCalled();
+      client.initialize(analytics);
+      expect(analytics.trackForm).toHaveBeenCalledWith(
+        [form],
+        'Submitted Form',
+        undefined
+      );
+    });
+  });
+
+  describe('call events', () => {
+    it('should emit an event for each step of a call', () => {
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({ apiKey: '1' });
+      const events: string[] = [];
+      (['queued', 'sent', 'delivered'] as const).forEach(name =>
+        client.emitter.on(name, () => events.push(name))
+      );
+      client.track({ event: 'Signed Up' });
+      client.initialize(analytics);
+      const [, , , callback] = (analytics.track as jest.Mock).mock.calls[0];
+      callback();
+      expect(events).toEqual(['queued', 'sent', 'delivered']);
+    });
+
+    it('should not limit the number of listeners', () => {
+      const client = new SegmentClient({ apiKey: '1' });
+      expect(client.emitter.getMaxListeners()).toBe(0);
+    });
+
+    it('should emit a timeout when analytics.js does not call back', () => {
+      jest.useFakeTimers();
+      const client = new SegmentClient({ apiKey: '1', callbackTimeout: 500 });
+      const onTimeout = jest.fn();
+      client.emitter.on('timeout', onTimeout);
+      client.initialize(createFakeAnalytics());
+      client.track({ event: 'Signed Up' });
+      jest.advanceTimersByTime(500);
+      expect(onTimeout).toHaveBeenCalledWith(
+        expect.objectContaining({ messageId: expect.any(String) })
+      );
+      jest.useRealTimers();
+    });
+
+    it('should emit dropped calls with the reason', () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+        sampleRates: { Scrolled: 0 },
+      });
+      const onDropped = jest.fn();
+      client.emitter.on('dropped', onDropped);
+      client.track({ event: 'Scrolled' });
+      client.identify({ userId: '1' });
+      client.clearQueue();
+      expect(onDropped.mock.calls.map(([, reason]) => reason)).toEqual([
+        'sampling',
+        'cleared',
+      ]);
+    });
+  });
+
+  describe('call results', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should resolve with the message ID once analytics.js calls back', async () => {
+      const client = new MockSegmentClient();
+      const onSent = jest.fn();
+      client.emitter.on('sent', onSent);
+      const result = await client.track({ event: 'Signed Up' });
+      expect(result).toEqual({
+        status: 'sent',
+        messageId: onSent.mock.calls[0][0].messageId,
+        duration: expect.any(Number),
+      });
+    });
+
+    it('should resolve queued calls once analytics.js has loaded', async () => {
+      jest.useFakeTimers();
+      const client = new MockSegmentClient({ initializeAfter: 100 });
+      const results = [
+        client.identify({ userId: '1' }),
+        client.alias({ userId: '2' }),
+        client.group({ groupId: '3' }),
+        client.setAnonymousId('4'),
+      ];
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+      const statuses = (await Promise.all(results)).map(
+        result => result.status
+      );
+      expect(statuses).toEqual(['sent', 'sent', 'sent', 'sent']);
+    });
+
+    it('should resolve as timed out when analytics.js does not call back', async () => {
+      jest.useFakeTimers();
+      const analytics = createFakeAnalytics();
+      const client = new SegmentClient({ apiKey: '1', callbackTimeout: 500 });
+      client.initialize(analytics);
+      const promise = client.track({ event: 'Signed Up' });
+      jest.advanceTimersByTime(500);
+      const [, , , callback] = (analytics.track as jest.Mock).mock.calls[0];
+      callback();
+      const result = await promise;
+      expect(result.status).toBe('timeout');
+      expect(result.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should wait for HttpAnalytics to send the batch by default', async () => {
+      jest.useFakeTimers();
+      const fetch = jest.fn(() => Promise.resolve({ ok: true, status: 200 }));
+      const client = new SegmentClient({
+        apiKey: '1',
+        analytics: new HttpAnalytics({ writeKey: '1', fetch }),
+      });
+      const onTimeout = jest.fn();
+      client.emitter.on('timeout', onTimeout);
+      const promise = client.track({ event: 'Signed Up' });
+      jest.advanceTimersByTime(10000);
+      jest.useRealTimers();
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect((await promise).status).toBe('sent');
+      expect(onTimeout).not.toHaveBeenCalled();
+    });
+
+    it('should resolve dropped calls with the reason', async () => {
+      const client = new SegmentClient({
+        apiKey: '1',
+        sampleRates: { Scrolled: 0 },
+      });
+      const sampled = client.track({ event: 'Scrolled' });
+      const cleared = client.identify({ userId: '1' });
+      client.clearQueue();
+      expect(await sampled).toEqual({
+        status: 'dropped',
+        reason: 'sampling',
+        messageId: expect.any(String),
+        duration: expect.any(Number),
+      });
+      expect(await cleared).toMatchObject({
+        status: 'dropped',
+        reason: 'cleared',
+      });
+    });
+
+    it('should resolve skipped debounced calls with the result of the sent call', async () => {
+      jest.useFakeTimers();
+      const client = new MockSegmentClient();
+      const first = client.trackDebounced({ event: 'Searched' }, 100);
+      const second = client.trackDebounced({ event: 'Searched' }, 100);
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+      expect(await first).toEqual(await second);
+      expect(client.getTrackedEvents('Searched')).toHaveLength(1);
+    });
+  });
+
+  describe('logger', () => {
+    function createLogger() {
+      return { debug: jest.fn(), warn: jest.fn() };
+    }
+
+    it('should write debug messages to the logger when debug is on', () => {
+      const logger = createLogger();
+      const client = new SegmentClient({ apiKey: '1', debug: true, logger });
+      client.initialize(createFakeAnalytics());
+      client.track({ event: 'Signed Up' });
+      expect(logger.debug).toHaveBeenCalledWith('[Segment] Track', {
+        event: 'Signed Up',
+      });
+    });
+
+    it('should only write warnings when debug is off', () => {
+      const logger = createLogger();
+      const client = new SegmentClient({
+        apiKey: '1',
+        logger,
+        trackingPlan: {
+          events: {
+            'Signed Up': {
+              type: 'object',
+              properties: { plan: { type: 'string' } },
+            },
+          },
+        },
+      });
+      client.initialize(createFakeAnalytics());
+      client.track({ event: 'Signed Up', properties: { plan: 1 } });
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Signed Up')
+      );
+    });
+  });
+
+  it('should emit loaded with analytics.js', () => {
+    const analytics = createFakeAnalytics();
+    const client = new SegmentClient({ apiKey: '1' });
+    const onLoaded = jest.fn();
+    client.emitter.on('loaded', onLoaded);
+    client.initialize(analytics);
+    expect(onLoaded).toHaveBeenCalledWith(analytics);
+  });
+
+  describe('.on() / .once() / .off()', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should add listeners before analytics.js has loaded', () => {
+      const client = new MockSegmentClient({ initializeAfter: 0 });
+      const onTrack = jest.fn();
+      client.on(EventType.track, onTrack);
+      client.track({ event: 'Signed Up' });
+      expect(onTrack).not.toHaveBeenCalled();
+
+      jest.runAllTimers();
+      expect(onTrack).toHaveBeenCalledWith('Signed Up', {}, {});
+    });
+
+    it('should return a function that removes the listener', () => {
+      const client = new MockSegmentClient({ initializeAfter: 0 });
+      const before = jest.fn();
+      const after = jest.fn();
+      client.on(EventType.track, before)();
+      jest.runAllTimers();
+      const unsubscribe = client.on(EventType.track, after);
+      client.track({ event: 'Signed Up' });
+      unsubscribe();
+      client.track({ event: 'Signed Up' });
+
+      expect(before).not.toHaveBeenCalled();
+      expect(after).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only call once listeners for the next call', () => {
+      const client = new MockSegmentClient();
+      const onPage = jest.fn();
+      client.once(EventType.page, onPage);
+      client.page({ name: 'Home' });
+      client.page({ name: 'Pricing' });
+      expect(onPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove listeners with off', () => {
+      const client = new MockSegmentClient();
+      const first = jest.fn();
+      const second = jest.fn();
+      client.on(EventType.track, first);
+      client.on(EventType.track, second);
+      client.off(EventType.track, first);
+      client.track({ event: 'Signed Up' });
+      client.off(EventType.track);
+      client.track({ event: 'Signed Up' });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,444 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import {
+  CallResult,
+  EventType,
+  GroupEvent,
+  Identify,
+  SegmentClient,
+  SegmentContext,
+  TrackClick,
+  TrackOnMount,
+  TrackOnView,
+  useConsent,
+  useGroup,
+  useIdentity,
+  useSegmentEvent,
+  useTrackForm,
+  useTrackLink,
+} from '../src';
+import { MockSegmentClient } from '../src/testing';
+
+const sent: CallResult = { status: 'sent', messageId: '1', duration: 0 };
+
+function createClient(): SegmentClient {
+  const client = new SegmentClient({ apiKey: '1' });
+  jest.spyOn(client, 'track').mockResolvedValue(sent);
+  jest.spyOn(client, 'identify').mockResolvedValue(sent);
+  jest.spyOn(client, 'reset').mockResolvedValue(sent);
+  jest.spyOn(client, 'group').mockResolvedValue(sent);
+  return client;
+}
+
+describe('tracking components', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+    container.remove();
+  });
+
+  function render(client: SegmentClient, element: React.ReactElement): void {
+    act(() => {
+      ReactDOM.render(
+        <SegmentContext.Provider value={client}>
+          {element}
+        </SegmentContext.Provider>,
+        container
+      );
+    });
+  }
+
+  describe('<TrackOnMount>', () => {
+    it('should track once per mount', () => {
+      const client = createClient();
+      render(client, <TrackOnMount event={{ event: 'Viewed Pricing' }} />);
+      render(client, <TrackOnMount event={{ event: 'Viewed Pricing' }} />);
+      expect(client.track).toHaveBeenCalledTimes(1);
+      expect(client.track).toHaveBeenCalledWith({ event: 'Viewed Pricing' });
+    });
+
+    it('should log track calls that fail', async () => {
+      const logger = { debug: jest.fn(), warn: jest.fn() };
+      const client = new SegmentClient({ apiKey: '1', logger });
+      const error = new Error('Invalid event');
+      jest.spyOn(client, 'track').mockRejectedValue(error);
+      render(client, <TrackOnMount event={{ event: 'Viewed Pricing' }} />);
+      await Promise.resolve();
+      expect(logger.warn).toHaveBeenCalledWith('[Segment] Call failed', error);
+    });
+  });
+
+  describe('<TrackClick>', () => {
+    it('should track clicks and call the child handler', () => {
+      const client = createClient();
+      const onClick = jest.fn();
+      render(
+        client,
+        <TrackClick event={{ event: 'Clicked Button' }}>
+          <button onClick={onClick}>Buy</button>
+        </TrackClick>
+      );
+
+      act(() => {
+        container.querySelector('button')!.click();
+      });
+      expect(onClick).toHaveBeenCalledTimes(1);
+      expect(client.track).toHaveBeenCalledWith({ event: 'Clicked Button' });
+    });
+  });
+
+  describe('<TrackOnView>', () => {
+    let observers: {
+      callback: IntersectionObserverCallback;
+      disconnect: jest.Mock;
+    }[];
+
+    beforeEach(() => {
+      observers = [];
+      (window as any).IntersectionObserver = jest.fn(
+        (callback: IntersectionObserverCallback) => {
+          const observer = {
+            callback,
+            observe: jest.fn(),
+            disconnect: jest.fn(),
+          };
+          observers.push(observer);
+          return observer;
+        }
+      );
+    });
+
+    afterEach(() => {
+      delete (window as any).IntersectionObserver;
+    });
+
+    function intersect(isIntersecting: boolean): void {
+      const { callback } = observers[observers.length - 1];
+      callback(
+        [{ isIntersecting } as IntersectionObserverEntry],
+        {} as IntersectionObserver
+      );
+    }
+
+    it('should track when the element comes into view', () => {
+      const client = createClient();
+      render(
+        client,
+        <TrackOnView event={{ event: 'Viewed Banner' }} threshold={0.5}>
+          Banner
+        </TrackOnView>
+      );
+      expect(window.IntersectionObserver).toHaveBeenCalledWith(
+        expect.any(Function),
+        { threshold: 0.5 }
+      );
+
+      intersect(false);
+      expect(client.track).not.toHaveBeenCalled();
+      intersect(true);
+      expect(client.track).toHaveBeenCalledWith({ event: 'Viewed Banner' });
+      expect(observers[0].disconnect).toHaveBeenCalled();
+    });
+
+    it('should track every time the element enters the view when once is false', () => {
+      const client = createClient();
+      render(
+        client,
+        <TrackOnView event={{ event: 'Viewed Banner' }} once={false}>
+          Banner
+        </TrackOnView>
+      );
+
+      intersect(true);
+      intersect(false);
+      intersect(true);
+      expect(client.track).toHaveBeenCalledTimes(2);
+      expect(observers[0].disconnect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('<Identify>', () => {
+    it('should only identify when the user or traits change', () => {
+      const client = createClient();
+      render(
+        client,
+        <Identify event={{ userId: '1', traits: { plan: 'pro', seats: 2 } }} />
+      );
+      render(
+        client,
+        <Identify event={{ userId: '1', traits: { seats: 2, plan: 'pro' } }} />
+      );
+      expect(client.identify).toHaveBeenCalledTimes(1);
+
+      render(
+        client,
+        <Identify event={{ userId: '1', traits: { plan: 'pro', seats: 3 } }} />
+      );
+      render(client, <Identify event={{ userId: '2' }} />);
+      expect(client.identify).toHaveBeenCalledTimes(3);
+      expect(client.identify).toHaveBeenLastCalledWith({ userId: '2' });
+    });
+
+    it('should log and retry identify calls that fail', async () => {
+      const logger = { debug: jest.fn(), warn: jest.fn() };
+      const client = new SegmentClient({ apiKey: '1', logger });
+      const error = new Error('Invalid traits');
+      const identify = jest
+        .spyOn(client, 'identify')
+        .mockRejectedValueOnce(error)
+        .mockResolvedValue(sent);
+      render(client, <Identify event={{ userId: '1' }} />);
+      await Promise.resolve();
+      expect(logger.warn).toHaveBeenCalledWith('[Segment] Call failed', error);
+
+      render(client, <Identify event={{ userId: '1' }} />);
+      await Promise.resolve();
+      render(client, <Identify event={{ userId: '1' }} />);
+      expect(identify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reset when the user logs out', () => {
+      const client = createClient();
+      render(client, <Identify event={null} />);
+      expect(client.reset).not.toHaveBeenCalled();
+
+      render(client, <Identify event={{ userId: '1' }} />);
+      render(client, <Identify event={null} />);
+      render(client, <Identify event={null} />);
+      expect(client.reset).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('useGroup()', () => {
+    function Group(props: { event: GroupEvent | null }): null {
+      useGroup(props.event);
+      return null;
+    }
+
+    it('should only send group calls when the group changes', () => {
+      const client = createClient();
+      render(client, <Group event={{ groupId: 'a', traits: { size: 5 } }} />);
+      render(client, <Group event={{ groupId: 'a', traits: { size: 5 } }} />);
+      render(client, <Group event={null} />);
+      render(client, <Group event={{ groupId: 'a', traits: { size: 5 } }} />);
+      expect(client.group).toHaveBeenCalledTimes(2);
+      expect(client.reset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useTrackLink()', () => {
+    function Link(
+      props: React.AnchorHTMLAttributes<HTMLAnchorElement>
+    ): JSX.Element {
+      const ref = React.useRef<HTMLAnchorElement>(null);
+      useTrackLink(ref, { event: 'Clicked Link' });
+      return (
+        <a ref={ref} href="#pricing" {...props}>
+          Pricing
+        </a>
+      );
+    }
+
+    function click(init: MouseEventInit = {}): MouseEvent {
+      const event = new MouseEvent('click', {
+        bubbles: true,
+        cancelable: true,
+        ...init,
+      });
+      container.querySelector('a')!.dispatchEvent(event);
+      return event;
+    }
+
+    beforeEach(() => {
+      window.location.hash = '';
+    });
+
+    it('should navigate once the event has been tracked', async () => {
+      const client = createClient();
+      render(client, <Link />);
+      const event = click();
+
+      expect(client.track).toHaveBeenCalledWith({ event: 'Clicked Link' });
+      expect(event.defaultPrevented).toBe(true);
+      expect(window.location.hash).toBe('');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(window.location.hash).toBe('#pricing');
+    });
+
+    it('should leave links that open a new tab to the browser', () => {
+      const client = createClient();
+      render(client, <Link />);
+      expect(click({ ctrlKey: true }).defaultPrevented).toBe(false);
+      expect(click({ metaKey: true }).defaultPrevented).toBe(false);
+
+      render(client, <Link target="_blank" />);
+      expect(click().defaultPrevented).toBe(false);
+      expect(client.track).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave links to other frames and downloads to the browser', () => {
+      const client = createClient();
+      render(client, <Link target="_top" />);
+      expect(click().defaultPrevented).toBe(false);
+
+      render(client, <Link download="report.pdf" />);
+      expect(click().defaultPrevented).toBe(false);
+      expect(client.track).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not navigate when a handler prevented the default action', async () => {
+      const client = createClient();
+      render(client, <Link onClick={e => e.preventDefault()} />);
+      click();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(client.track).toHaveBeenCalledWith({ event: 'Clicked Link' });
+      expect(window.location.hash).toBe('');
+    });
+  });
+
+  describe('useTrackForm()', () => {
+    it('should submit the form when the track call fails', async () => {
+      const client = createClient();
+      (client.track as jest.Mock).mockRejectedValue(new Error('Invalid event'));
+      function Form(): JSX.Element {
+        const ref = React.useRef<HTMLFormElement>(null);
+        useTrackForm(ref, { event: 'Submitted Form' });
+        return <form ref={ref} />;
+      }
+
+      render(client, <Form />);
+      const form = container.querySelector('form') as HTMLFormElement;
+      const submit = jest.spyOn(form, 'submit').mockImplementation(() => {});
+      const event = new Event('submit', { bubbles: true, cancelable: true });
+      form.dispatchEvent(event);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(submit).toHaveBeenCalled();
+    });
+
+    it('should submit the name and value of the button that was pressed', async () => {
+      const client = createClient();
+      function Form(): JSX.Element {
+        const ref = React.useRef<HTMLFormElement>(null);
+        useTrackForm(ref, { event: 'Submitted Form' });
+        return (
+          <form ref={ref}>
+            <button name="plan" value="pro">
+              Pro
+            </button>
+          </form>
+        );
+      }
+
+      render(client, <Form />);
+      const form = container.querySelector('form') as HTMLFormElement;
+      let submitted: Record<string, string> = {};
+      jest.spyOn(form, 'submit').mockImplementation(() => {
+        const hidden = form.querySelector('input[type="hidden"]');
+        submitted = hidden
+          ? {
+              [hidden.getAttribute(
+                'name'
+              ) as string]: (hidden as HTMLInputElement).value,
+            }
+          : {};
+      });
+      const event = new Event('submit', { bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'submitter', {
+        value: form.querySelector('button'),
+      });
+      form.dispatchEvent(event);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(submitted).toEqual({ plan: 'pro' });
+      expect(form.querySelector('input')).toBeNull();
+    });
+  });
+
+  describe('useConsent()', () => {
+    it('should re-render when the consent changes', () => {
+      const client = new MockSegmentClient({ consent: { analytics: false } });
+      let result: ReturnType<typeof useConsent> | undefined;
+      function Banner(): null {
+        result = useConsent();
+        return null;
+      }
+
+      render(client, <Banner />);
+      expect(result!.consent).toEqual({ analytics: false });
+
+      act(() => {
+        result!.setConsent({ analytics: true });
+      });
+      expect(result!.consent).toEqual({ analytics: true });
+      expect(client.hasConsent).toBe(true);
+
+      act(() => {
+        client.setConsent({ advertising: true });
+      });
+      expect(result!.consent).toEqual({ analytics: true, advertising: true });
+    });
+  });
+
+  describe('useIdentity()', () => {
+    it('should re-render when the user changes', () => {
+      const client = new MockSegmentClient();
+      let renders = 0;
+      let identity: ReturnType<typeof useIdentity> | undefined;
+      function User(): null {
+        renders++;
+        identity = useIdentity();
+        return null;
+      }
+
+      render(client, <User />);
+      const initialRenders = renders;
+
+      act(() => {
+        client.identify({ userId: '1', traits: { plan: 'pro' } });
+      });
+      expect(identity).toMatchObject({
+        userId: '1',
+        traits: { plan: 'pro' },
+      });
+
+      act(() => {
+        client.setAnonymousId('anonymous');
+      });
+      expect(identity!.anonymousId).toBe('anonymous');
+
+      act(() => {
+        client.reset();
+      });
+      expect(identity!.userId).toBeUndefined();
+      expect(identity!.traits).toEqual({});
+      expect(renders).toBe(initialRenders + 3);
+    });
+  });
+
+  describe('useSegmentEvent()', () => {
+    it('should listen for calls until the component unmounts', () => {
+      const client = new MockSegmentClient();
+      const tracked: string[] = [];
+      function Listener(): null {
+        useSegmentEvent(EventType.track, event => tracked.push(event));
+        return null;
+      }
+
+      render(client, <Listener />);
+      client.track({ event: 'Signed Up' });
+      render(client, <></>);
+      client.track({ event: 'Signed Out' });
+      expect(tracked).toEqual(['Signed Up']);
+    });
+  });
+});
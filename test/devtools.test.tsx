@@ -0,0 +1,96 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import { SegmentDevtools } from '../src';
+import { MockSegmentClient, MockSegmentProvider } from '../src/testing';
+
+describe('<SegmentDevtools>', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+    container.remove();
+    jest.useRealTimers();
+  });
+
+  function render(client: MockSegmentClient): void {
+    act(() => {
+      ReactDOM.render(
+        <MockSegmentProvider client={client}>
+          <SegmentDevtools initialOpen />
+        </MockSegmentProvider>,
+        container
+      );
+    });
+  }
+
+  function timeline(): string[] {
+    return Array.from(container.querySelectorAll('summary')).map(
+      summary => summary.textContent || ''
+    );
+  }
+
+  it('should show calls as they are queued and sent', async () => {
+    const client = new MockSegmentClient({ initializeAfter: 1000 });
+    render(client);
+
+    act(() => {
+      client.track({ event: 'Signed Up', properties: { plan: 'pro' } });
+    });
+    expect(timeline()).toEqual([
+      expect.stringMatching(/track Signed Up queued$/),
+    ]);
+    expect(container.textContent).toContain('track Signed Up');
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(timeline()).toEqual([
+      expect.stringMatching(/track Signed Up sent \d+ms$/),
+    ]);
+    expect(container.querySelector('details pre')!.textContent).toContain(
+      '"plan": "pro"'
+    );
+  });
+
+  it('should show dropped calls and why they were dropped', () => {
+    const client = new MockSegmentClient({ sampleRates: { Scrolled: 0 } });
+    render(client);
+
+    act(() => {
+      client.track({ event: 'Scrolled' });
+      client.identify({ userId: 'user-1' });
+    });
+    expect(timeline()).toEqual([
+      expect.stringMatching(/identify user-1 sent/),
+      expect.stringMatching(/track Scrolled dropped \(sampling\) 0ms$/),
+    ]);
+    expect(container.textContent).toContain('User ID: user-1');
+  });
+
+  it('should filter the timeline', () => {
+    const client = new MockSegmentClient();
+    render(client);
+    act(() => {
+      client.track({ event: 'Signed Up' });
+      client.page({ name: 'Pricing' });
+    });
+
+    const input = container.querySelector('input')!;
+    act(() => {
+      const setValue = Object.getOwnPropertyDescriptor(
+        HTMLInputElement.prototype,
+        'value'
+      )!.set!;
+      setValue.call(input, 'pric');
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+    expect(timeline()).toEqual([expect.stringMatching(/page Pricing sent/)]);
+  });
+});
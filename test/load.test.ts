@@ -0,0 +1,187 @@
+import { ScriptLoadError, loadSegmentSnippet } from '../src';
+import { loadAnalytics } from '../src/lib/load';
+
+function scripts(): HTMLScriptElement[] {
+  return Array.from(document.head.querySelectorAll('script'));
+}
+
+function lastScript(): HTMLScriptElement {
+  const all = scripts();
+  return all[all.length - 1];
+}
+
+/**
+ * Let the promise chain inside the loader catch up with the fake timers.
+ */
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe('loadSegmentSnippet', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete window.analytics;
+    document.head.innerHTML = '';
+  });
+
+  it('should load analytics.js from the Segment CDN', () => {
+    loadSegmentSnippet({ apiKey: 'default' });
+    expect(lastScript().src).toBe(
+      'https://cdn.segment.com/analytics.js/v1/default/analytics.min.js'
+    );
+  });
+
+  it('should load analytics.js from a custom CDN host', () => {
+    loadSegmentSnippet({ apiKey: 'cdn', cdnHost: 'https://example.com/cdn/' });
+    expect(lastScript().src).toBe(
+      'https://example.com/cdn/analytics.js/v1/cdn/analytics.min.js'
+    );
+    expect((window.analytics as any)._cdn).toBe('https://example.com/cdn');
+  });
+
+  it('should fill in the script URL template', () => {
+    loadSegmentSnippet({
+      apiKey: 'template',
+      scriptUrl: 'https://example.com/static/{apiKey}.js',
+    });
+    expect(lastScript().src).toBe('https://example.com/static/template.js');
+  });
+
+  it('should add the script attributes', () => {
+    loadSegmentSnippet({
+      apiKey: 'attributes',
+      nonce: 'abc',
+      integrity: 'sha384-hash',
+      crossOrigin: 'anonymous',
+    });
+    const script = lastScript();
+    expect(script.nonce).toBe('abc');
+    expect(script.integrity).toBe('sha384-hash');
+    expect(script.crossOrigin).toBe('anonymous');
+  });
+
+  it('should pass the API host to analytics.js', () => {
+    loadSegmentSnippet({
+      apiKey: 'api-host',
+      apiHost: 'https://example.com/api/',
+    });
+    expect((window.analytics as any)._loadOptions).toEqual({
+      integrations: { 'Segment.io': { apiHost: 'example.com/api/v1' } },
+    });
+  });
+
+  it('should resolve with analytics.js once the script has loaded', async () => {
+    const loading = loadSegmentSnippet({ apiKey: 'loaded' });
+    const analytics = { track: jest.fn() };
+    window.analytics = analytics as any;
+    lastScript().dispatchEvent(new Event('load'));
+    expect(await loading).toBe(analytics);
+  });
+
+  it('should only add one tag for concurrent loads of the same URL', async () => {
+    const first = loadSegmentSnippet({ apiKey: 'dedupe' });
+    const second = loadSegmentSnippet({ apiKey: 'dedupe' });
+    await flushPromises();
+    expect(scripts()).toHaveLength(1);
+
+    window.analytics = { track: jest.fn() } as any;
+    lastScript().dispatchEvent(new Event('load'));
+    expect(await first).toBe(await second);
+  });
+
+  it('should retry and remove failed tags', async () => {
+    const loading = loadSegmentSnippet({
+      apiKey: 'retry',
+      scriptRetries: 1,
+      scriptRetryDelay: 100,
+    });
+    lastScript().dispatchEvent(new Event('error'));
+    expect(scripts()).toHaveLength(0);
+
+    await flushPromises();
+    jest.advanceTimersByTime(100);
+    await flushPromises();
+    expect(scripts()).toHaveLength(1);
+
+    window.analytics = { track: jest.fn() } as any;
+    lastScript().dispatchEvent(new Event('load'));
+    expect(await loading).toBe(window.analytics);
+  });
+
+  it('should resolve with undefined when analytics.js cannot be loaded', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const loading = loadSegmentSnippet({
+      apiKey: 'blocked',
+      scriptRetries: 0,
+    });
+    lastScript().dispatchEvent(new Event('error'));
+    expect(await loading).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should reject with a ScriptLoadError once every attempt has timed out', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const loading = loadAnalytics({
+      apiKey: 'timeout',
+      scriptTimeout: 1000,
+      scriptRetries: 0,
+    });
+    jest.advanceTimersByTime(1000);
+
+    const error = await loading.catch(e => e);
+    expect(error).toBeInstanceOf(ScriptLoadError);
+    expect(error.reason).toBe('timeout');
+    expect(scripts()).toHaveLength(0);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should wait for an existing snippet to load analytics.js', async () => {
+    const stub: any = [];
+    stub.invoked = true;
+    window.analytics = stub;
+    const loading = loadSegmentSnippet({ apiKey: 'snippet' });
+    expect(scripts()).toHaveLength(0);
+
+    const analytics = { track: jest.fn() };
+    window.analytics = analytics as any;
+    jest.advanceTimersByTime(50);
+    expect(await loading).toBe(analytics);
+  });
+
+  it('should give an existing snippet as long as loading the script would take', async () => {
+    const stub: any = [];
+    stub.invoked = true;
+    window.analytics = stub;
+    const loading = loadSegmentSnippet({ apiKey: 'slow-snippet' });
+
+    jest.advanceTimersByTime(5000);
+    const analytics = { track: jest.fn() };
+    window.analytics = analytics as any;
+    jest.advanceTimersByTime(50);
+    expect(await loading).toBe(analytics);
+  });
+
+  it('should load isolated instances without replacing window.analytics', async () => {
+    // Isolated loads wait for every other script, and earlier tests leave theirs loading
+    jest.resetModules();
+    const load: typeof loadSegmentSnippet = require('../src')
+      .loadSegmentSnippet;
+    const global = { track: jest.fn() };
+    window.analytics = global as any;
+    const loading = load({ apiKey: 'isolated', isolated: true });
+    await flushPromises();
+    expect(lastScript().src).toContain('/isolated/');
+
+    const instance = { track: jest.fn() };
+    window.analytics = instance as any;
+    lastScript().dispatchEvent(new Event('load'));
+    expect(await loading).toBe(instance);
+    expect(window.analytics).toBe(global);
+  });
+});
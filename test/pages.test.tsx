@@ -0,0 +1,200 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import {
+  PageEvent,
+  PageTrackingOptions,
+  SegmentClient,
+  SegmentProvider,
+  usePageTracking,
+  useSegment,
+} from '../src';
+import { historyRouteSource } from '../src/lib/pages';
+import { MockSegmentClient, MockSegmentProvider } from '../src/testing';
+
+describe('historyRouteSource', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should read the path from the location', () => {
+    window.history.pushState(null, '', '/pricing?plan=pro');
+    expect(historyRouteSource.getPath()).toBe('/pricing');
+  });
+
+  it('should notify listeners after pushState and replaceState', () => {
+    const listener = jest.fn();
+    const unsubscribe = historyRouteSource.subscribe(listener);
+
+    window.history.pushState(null, '', '/about');
+    expect(listener).not.toHaveBeenCalled();
+    jest.runAllTimers();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    window.history.replaceState(null, '', '/contact');
+    jest.runAllTimers();
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it('should notify listeners on popstate', () => {
+    const listener = jest.fn();
+    const unsubscribe = historyRouteSource.subscribe(listener);
+
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    jest.runAllTimers();
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('should restore history once the last listener unsubscribes', () => {
+    const { pushState } = window.history;
+    const first = historyRouteSource.subscribe(jest.fn());
+    const second = historyRouteSource.subscribe(jest.fn());
+    expect(window.history.pushState).not.toBe(pushState);
+
+    first();
+    expect(window.history.pushState).not.toBe(pushState);
+    second();
+    expect(window.history.pushState).toBe(pushState);
+  });
+});
+
+describe('usePageTracking()', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    window.history.replaceState(null, '', '/');
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+    jest.useRealTimers();
+  });
+
+  function PageTracker(props: PageTrackingOptions): null {
+    usePageTracking(props);
+    return null;
+  }
+
+  function render(client: MockSegmentClient, element: React.ReactElement) {
+    act(() => {
+      ReactDOM.render(
+        <MockSegmentProvider client={client}>{element}</MockSegmentProvider>,
+        container
+      );
+    });
+  }
+
+  function navigate(path: string): void {
+    act(() => {
+      window.history.pushState(null, '', path);
+      jest.runAllTimers();
+    });
+  }
+
+  it('should track a page on mount', () => {
+    const client = new MockSegmentClient();
+    render(client, <PageTracker />);
+    expect(client.getPages()).toHaveLength(1);
+  });
+
+  it('should track a page when the path changes', () => {
+    const client = new MockSegmentClient();
+    render(
+      client,
+      <PageTracker getPageEvent={path => ({ name: path.slice(1) })} />
+    );
+    navigate('/pricing');
+    navigate('/about');
+    expect(client.getPages().map(page => page.name)).toEqual([
+      '',
+      'pricing',
+      'about',
+    ]);
+  });
+
+  it('should not track the same path twice', () => {
+    const client = new MockSegmentClient();
+    render(
+      client,
+      <React.StrictMode>
+        <PageTracker />
+      </React.StrictMode>
+    );
+    render(
+      client,
+      <React.StrictMode>
+        <PageTracker />
+      </React.StrictMode>
+    );
+    act(() => {
+      window.history.replaceState({ tab: 2 }, '', '/');
+      jest.runAllTimers();
+    });
+    expect(client.getPages()).toHaveLength(1);
+  });
+
+  it('should track the path it is given', () => {
+    const client = new MockSegmentClient();
+    render(client, <PageTracker path="/home" />);
+    render(client, <PageTracker path="/home" />);
+    render(client, <PageTracker path="/settings" />);
+    expect(client.getPages()).toHaveLength(2);
+  });
+
+  it('should skip pages when getPageEvent returns null', () => {
+    const client = new MockSegmentClient();
+    const getPageEvent = (path: string): PageEvent | null =>
+      path.startsWith('/admin') ? null : { name: path };
+    render(client, <PageTracker getPageEvent={getPageEvent} />);
+    navigate('/admin/users');
+    navigate('/pricing');
+    expect(client.getPages().map(page => page.name)).toEqual(['/', '/pricing']);
+  });
+
+  it('should log page calls that fail', async () => {
+    const logger = { debug: jest.fn(), warn: jest.fn() };
+    const error = new Error('Blocked');
+    const client = new MockSegmentClient({
+      logger,
+      loadError: error,
+      loadErrorPolicy: 'reject',
+    });
+    render(client, <PageTracker />);
+    await Promise.resolve();
+    expect(logger.warn).toHaveBeenCalledWith('[Segment] Call failed', error);
+  });
+
+  it('should track pages from the provider with trackPages', () => {
+    let client: SegmentClient | undefined;
+    function Consumer(): null {
+      client = useSegment();
+      return null;
+    }
+    act(() => {
+      ReactDOM.render(
+        <SegmentProvider
+          apiKey="1"
+          autoload={false}
+          trackPages={{ getPageEvent: path => ({ name: path }) }}
+        >
+          <Consumer />
+        </SegmentProvider>,
+        container
+      );
+    });
+    navigate('/pricing');
+    // analytics.js isn't loaded, so the page calls wait in the queue
+    expect(
+      client!.getQueue().map(message => (message.event as PageEvent).name)
+    ).toEqual(['/', '/pricing']);
+  });
+});
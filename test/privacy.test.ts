@@ -0,0 +1,94 @@
+import { privacyFilter, EventMessage, EventType } from '../src';
+
+function track(properties: Record<string, any>): EventMessage {
+  return {
+    type: EventType.track,
+    event: { event: 'Test', properties },
+  };
+}
+
+describe('privacyFilter', () => {
+  it('should redact emails, phone numbers, SSNs and card numbers by default', () => {
+    const filter = privacyFilter();
+    expect(
+      filter(
+        track({
+          email: 'jane@example.com',
+          phone: '(415) 555-0100',
+          note: 'SSN is 123-45-6789',
+          card: '4242 4242 4242 4242',
+          color: 'red',
+        })
+      )
+    ).toEqual(
+      track({
+        email: '[REDACTED]',
+        phone: '[REDACTED]',
+        note: '[REDACTED]',
+        card: '[REDACTED]',
+        color: 'red',
+      })
+    );
+  });
+
+  it('should not treat long numeric IDs as card numbers', () => {
+    const filter = privacyFilter();
+    const message = track({ orderId: '4242424242424241' });
+    expect(filter(message)).toEqual(message);
+  });
+
+  it('should match fields by key', () => {
+    const filter = privacyFilter({
+      rules: [{ key: /policy_?number/i, action: 'drop' }],
+    });
+    expect(
+      filter(track({ policyNumber: 'P-1234', dob: '1990-01-01', plan: 'A' }))
+    ).toEqual(track({ dob: '[REDACTED]', plan: 'A' }));
+  });
+
+  it('should hash fields', () => {
+    const filter = privacyFilter({
+      rules: [{ key: 'policyNumber', action: 'hash' }],
+      hash: value => `hashed:${value}`,
+    });
+    expect(filter(track({ policyNumber: 'P-1234' }))).toEqual(
+      track({ policyNumber: 'hashed:P-1234' })
+    );
+  });
+
+  it('should check nested objects and arrays in traits', () => {
+    const filter = privacyFilter();
+    expect(
+      filter({
+        type: EventType.identify,
+        event: {
+          userId: '12345',
+          traits: {
+            company: { contact: 'jane@example.com' },
+            aliases: ['Jane', 'jane@example.com'],
+          },
+        },
+      })
+    ).toEqual({
+      type: EventType.identify,
+      event: {
+        userId: '12345',
+        traits: {
+          company: { contact: '[REDACTED]' },
+          aliases: ['Jane', '[REDACTED]'],
+        },
+      },
+    });
+  });
+
+  it('should report what was removed', () => {
+    const onRedact = jest.fn();
+    const filter = privacyFilter({ onRedact });
+    filter(track({ color: 'red' }));
+    expect(onRedact).not.toHaveBeenCalled();
+    filter(track({ contact: { email: 'jane@example.com' } }));
+    expect(onRedact).toHaveBeenCalledWith(expect.anything(), [
+      { path: '$.properties.contact.email', rule: 'email', action: 'redact' },
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import {
+  CallResult,
+  ClientStatus,
+  FanOut,
+  HttpAnalytics,
+  SegmentClient,
+  SegmentContext,
+  SegmentProvider,
+  useSegment,
+  useSegmentLoader,
+  useSegments,
+} from '../src';
+
+describe('<SegmentProvider>', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(container);
+  });
+
+  function render(element: React.ReactElement): void {
+    act(() => {
+      ReactDOM.render(element, container);
+    });
+  }
+
+  it('should create a new client with the latest options', () => {
+    let client: SegmentClient | undefined;
+    function Consumer() {
+      client = useSegment();
+      return null;
+    }
+    render(
+      <SegmentProvider
+        apiKey="1"
+        sampleRates={{ Scrolled: 1 }}
+        autoload={false}
+      >
+        <Consumer />
+      </SegmentProvider>
+    );
+    render(
+      <SegmentProvider
+        apiKey="2"
+        sampleRates={{ Scrolled: 0 }}
+        autoload={false}
+      >
+        <Consumer />
+      </SegmentProvider>
+    );
+
+    client!.track({ event: 'Scrolled' });
+    expect(client!.getQueue()).toEqual([]);
+  });
+
+  it('should log when consent cannot be read', async () => {
+    const logger = { debug: jest.fn(), warn: jest.fn() };
+    const error = new Error('Consent manager failed');
+    render(
+      <SegmentProvider
+        apiKey="1"
+        consent={() => {
+          throw error;
+        }}
+        logger={logger}
+        autoload={false}
+      >
+        {null}
+      </SegmentProvider>
+    );
+    await Promise.resolve();
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[Segment] Failed to read consent',
+      error
+    );
+  });
+
+  it('should give named providers their own client', () => {
+    const clients: Record<string, SegmentClient> = {};
+    function Consumer() {
+      clients.default = useSegment();
+      clients.marketing = useSegment('marketing');
+      return null;
+    }
+    render(
+      <SegmentProvider apiKey="product" autoload={false}>
+        <SegmentProvider apiKey="marketing" name="marketing" autoload={false}>
+          <Consumer />
+        </SegmentProvider>
+      </SegmentProvider>
+    );
+
+    expect(clients.default).toBeInstanceOf(SegmentClient);
+    expect(clients.marketing).toBeInstanceOf(SegmentClient);
+    expect(clients.marketing).not.toBe(clients.default);
+  });
+
+  it('should throw when a named provider is missing', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    function Consumer() {
+      useSegment('marketing');
+      return null;
+    }
+    expect(() =>
+      render(
+        <SegmentProvider apiKey="product" autoload={false}>
+          <Consumer />
+        </SegmentProvider>
+      )
+    ).toThrow('<SegmentProvider name="marketing">');
+    error.mockRestore();
+  });
+
+  it('should fan calls out to several clients', async () => {
+    let clients: SegmentClient[] = [];
+    let both: FanOut | undefined;
+    function Consumer() {
+      clients = [useSegment(), useSegment('marketing')];
+      both = useSegments(['default', 'marketing']);
+      return null;
+    }
+    render(
+      <SegmentProvider apiKey="product" autoload={false}>
+        <SegmentProvider apiKey="marketing" name="marketing" autoload={false}>
+          <Consumer />
+        </SegmentProvider>
+      </SegmentProvider>
+    );
+    const sent: CallResult = { status: 'sent', messageId: '1', duration: 0 };
+    const spies = clients.map(client =>
+      jest.spyOn(client, 'track').mockResolvedValue(sent)
+    );
+
+    expect(await both!.track({ event: 'Signed Up' })).toEqual([sent, sent]);
+    spies.forEach(spy =>
+      expect(spy).toHaveBeenCalledWith({ event: 'Signed Up' })
+    );
+  });
+
+  describe('useSegmentLoader()', () => {
+    let loader: { load: () => Promise<void>; status: ClientStatus };
+
+    function Loader(): null {
+      loader = useSegmentLoader();
+      return null;
+    }
+
+    function renderLoader(client: SegmentClient): void {
+      render(
+        <SegmentContext.Provider value={client}>
+          <Loader />
+        </SegmentContext.Provider>
+      );
+    }
+
+    it('should load analytics.js and update the status', () => {
+      const client = new SegmentClient({ apiKey: '1', requireConsent: true });
+      renderLoader(client);
+      expect(loader.status).toBe('pending');
+
+      act(() => {
+        loader.load();
+      });
+      expect(loader.status).toBe('loading');
+
+      act(() => {
+        client.initialize(new HttpAnalytics({ writeKey: '1' }));
+      });
+      expect(loader.status).toBe('ready');
+    });
+
+    it('should update the status when loading fails', () => {
+      const client = new SegmentClient({ apiKey: '1' });
+      renderLoader(client);
+      act(() => {
+        client.fail(new Error('Blocked'));
+      });
+      expect(loader.status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Fetch, SegmentClient, ServerAnalytics } from '../src';
+
+interface Request {
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * A stub of the Segment HTTP Tracking API. Responses are taken from `statuses` in order, then default to 200.
+ */
+function createStub() {
+  const requests: Request[] = [];
+  const statuses: number[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: JSON.parse(body) });
+      res.statusCode = statuses.shift() || 200;
+      res.end('{}');
+    });
+  });
+  return {
+    requests,
+    statuses,
+    listen: () =>
+      new Promise<string>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+          const { port } = server.address() as AddressInfo;
+          resolve(`http://127.0.0.1:${port}`);
+        });
+      }),
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+/**
+ * Jest's Node environment doesn't have a global fetch, so requests are made with the http module.
+ */
+const nodeFetch: Fetch = (url, init) =>
+  new Promise((resolve, reject) => {
+    const req = http.request(
+      url,
+      { method: init.method, headers: init.headers },
+      res => {
+        res.resume();
+        res.on('end', () => {
+          const status = res.statusCode || 0;
+          resolve({ ok: status >= 200 && status < 300, status });
+        });
+      }
+    );
+    req.on('error', reject);
+    req.end(init.body);
+  });
+
+describe('ServerAnalytics', () => {
+  let stub: ReturnType<typeof createStub>;
+  let host: string;
+
+  beforeEach(async () => {
+    stub = createStub();
+    host = await stub.listen();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it('should send batches to /v1/batch with the write key', async () => {
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+    });
+    analytics.identify('user-1', { plan: 'pro' });
+    analytics.track('Signed Up', { source: 'ssr' });
+    await analytics.flush();
+
+    expect(stub.requests).toHaveLength(1);
+    const [{ headers, body }] = stub.requests;
+    expect(headers.authorization).toBe(
+      `Basic ${Buffer.from('key:').toString('base64')}`
+    );
+    expect(body.batch).toEqual([
+      expect.objectContaining({
+        type: 'identify',
+        userId: 'user-1',
+        traits: { plan: 'pro' },
+        messageId: expect.any(String),
+        timestamp: expect.any(String),
+      }),
+      expect.objectContaining({
+        type: 'track',
+        userId: 'user-1',
+        event: 'Signed Up',
+        properties: { source: 'ssr' },
+      }),
+    ]);
+  });
+
+  it('should flush once enough messages are waiting', async () => {
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+      flushAt: 2,
+    });
+    const callback = jest.fn();
+    analytics.track('One', {}, {}, callback);
+    analytics.track('Two', {}, {}, callback);
+    analytics.track('Three', {}, {}, callback);
+    await analytics.flush();
+
+    expect(stub.requests.map(request => request.body.batch.length)).toEqual([
+      2,
+      1,
+    ]);
+    expect(callback).toHaveBeenCalledTimes(3);
+  });
+
+  it('should flush after the flush interval', async () => {
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+      flushInterval: 10,
+    });
+    await new Promise(resolve => analytics.track('Viewed', {}, {}, resolve));
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('should use an anonymous ID until the user is identified', async () => {
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+    });
+    analytics.page(undefined, 'Home');
+    analytics.setAnonymousId('anonymous');
+    analytics.page(undefined, 'Pricing');
+    await analytics.flush();
+
+    const [first, second] = stub.requests[0].body.batch;
+    expect(first.anonymousId).toEqual(expect.any(String));
+    expect(first.userId).toBeUndefined();
+    expect(second.anonymousId).toBe('anonymous');
+  });
+
+  it('should retry server errors', async () => {
+    stub.statuses.push(500, 503);
+    const onError = jest.fn();
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+      retryDelay: 1,
+      onError,
+    });
+    analytics.track('Retried');
+    await analytics.flush();
+
+    expect(stub.requests).toHaveLength(3);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report batches that could not be delivered', async () => {
+    stub.statuses.push(400);
+    const onError = jest.fn();
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+      retryDelay: 1,
+      onError,
+    });
+    analytics.track('Rejected');
+    await analytics.flush();
+
+    expect(stub.requests).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), [
+      expect.objectContaining({ event: 'Rejected' }),
+    ]);
+  });
+
+  it('should be usable as the analytics of a SegmentClient', async () => {
+    const analytics = new ServerAnalytics({
+      writeKey: 'key',
+      host,
+      fetch: nodeFetch,
+      flushAt: 1,
+    });
+    const client = new SegmentClient({ apiKey: 'key', analytics });
+    expect(client.status).toBe('ready');
+
+    await client.identify({ userId: 'user-1' });
+    await client.track({ event: 'Rendered Page' });
+    expect(client.user()).toEqual(
+      expect.objectContaining({ userId: 'user-1' })
+    );
+    expect(stub.requests.map(request => request.body.batch[0].type)).toEqual([
+      'identify',
+      'track',
+    ]);
+  });
+});
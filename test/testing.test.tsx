@@ -0,0 +1,98 @@
+/// <reference path="../testing/matchers.d.ts" />
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import { TrackOnMount, useSegment } from '../src';
+import {
+  MockSegmentClient,
+  MockSegmentProvider,
+  segmentMatchers,
+} from '../src/testing';
+
+expect.extend(segmentMatchers);
+
+describe('MockSegmentClient', () => {
+  it('should record the calls that reach analytics.js', async () => {
+    const segment = new MockSegmentClient();
+    segment.use(message =>
+      message.type === 'track' && message.event.event === 'Internal'
+        ? null
+        : message
+    );
+    await segment.identify({ userId: '1', traits: { plan: 'pro' } });
+    await segment.track({ event: 'Purchase Card', properties: { amount: 5 } });
+    await segment.track({ event: 'Internal' });
+    await segment.page({ name: 'Pricing' });
+
+    expect(segment.getTrackedEvents('Purchase Card')).toEqual([
+      { event: 'Purchase Card', properties: { amount: 5 }, options: {} },
+    ]);
+    expect(segment.getTrackedEvents()).toHaveLength(1);
+    expect(segment.user()).toEqual({
+      userId: '1',
+      anonymousId: expect.any(String),
+      traits: { plan: 'pro' },
+    });
+    expect(segment).toHaveTracked('Purchase Card');
+    expect(segment).toHaveTracked('Purchase Card', { amount: 5 });
+    expect(segment).not.toHaveTracked('Purchase Card', { amount: 6 });
+    expect(segment).not.toHaveTracked('Internal');
+    expect(segment).toHaveIdentified('1', { plan: 'pro' });
+    expect(segment).toHaveTrackedPage('Pricing');
+
+    segment.clearCalls();
+    expect(segment.calls).toEqual([]);
+  });
+
+  it('should queue calls until it is initialized', async () => {
+    jest.useFakeTimers();
+    const segment = new MockSegmentClient({ initializeAfter: 1000 });
+    const tracking = segment.track({ event: 'Signed Up' });
+    expect(segment.status).toBe('pending');
+    expect(segment.getQueue()).toHaveLength(1);
+    expect(segment).not.toHaveTracked('Signed Up');
+
+    jest.advanceTimersByTime(1000);
+    await tracking;
+    expect(segment.status).toBe('ready');
+    expect(segment).toHaveTracked('Signed Up');
+    jest.useRealTimers();
+  });
+
+  it('should simulate analytics.js failing to load', async () => {
+    const error = new Error('Blocked');
+    const segment = new MockSegmentClient({
+      loadError: error,
+      loadErrorPolicy: 'reject',
+    });
+    expect(segment.status).toBe('failed');
+    await expect(segment.track({ event: 'Signed Up' })).rejects.toBe(error);
+    await expect(segment.load()).resolves.toBeUndefined();
+    expect(segment.calls).toEqual([]);
+  });
+});
+
+describe('<MockSegmentProvider>', () => {
+  it('should provide a recording client', () => {
+    const container = document.createElement('div');
+    const segment = new MockSegmentClient();
+    let provided: unknown;
+    function Consumer() {
+      provided = useSegment();
+      return null;
+    }
+    act(() => {
+      ReactDOM.render(
+        <MockSegmentProvider client={segment}>
+          <TrackOnMount event={{ event: 'Viewed Pricing' }} />
+          <Consumer />
+        </MockSegmentProvider>,
+        container
+      );
+    });
+
+    expect(provided).toBe(segment);
+    expect(segment).toHaveTracked('Viewed Pricing');
+    ReactDOM.unmountComponentAtNode(container);
+  });
+});
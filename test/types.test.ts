@@ -0,0 +1,40 @@
+import path from 'path';
+import ts from 'typescript';
+
+/**
+ * Compile a fixture and return the lines with type errors. Fixtures are excluded from the project's own
+ * type-check, because they are meant to fail.
+ */
+function getErrorLines(file: string): number[] {
+  const program = ts.createProgram([file], {
+    strict: true,
+    noEmit: true,
+    jsx: ts.JsxEmit.React,
+    esModuleInterop: true,
+    lib: ['lib.dom.d.ts', 'lib.esnext.d.ts'],
+  });
+  const source = program.getSourceFile(file) as ts.SourceFile;
+  return ts
+    .getPreEmitDiagnostics(program, source)
+    .map(diagnostic => source.getLineAndCharacterOfPosition(diagnostic.start!))
+    .map(({ line }) => line);
+}
+
+/**
+ * Return the lines that follow an `// $ExpectError` comment.
+ */
+function getExpectedLines(file: string): number[] {
+  return ts.sys
+    .readFile(file)!
+    .split('\n')
+    .map((line, index) => (line.trim() === '// $ExpectError' ? index + 1 : -1))
+    .filter(line => line !== -1);
+}
+
+describe('tracking plan types', () => {
+  it('should reject calls that do not match the plan', () => {
+    const file = path.join(__dirname, 'types', 'tracking-plan.ts');
+    const lines = Array.from(new Set(getErrorLines(file)));
+    expect(lines).toEqual(getExpectedLines(file));
+  }, 60000);
+});
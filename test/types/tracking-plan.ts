@@ -0,0 +1,34 @@
+import { SegmentClient } from '../../src';
+
+interface Plan {
+  events: {
+    'Purchase Card': { color: 'red' | 'yellow'; note?: string };
+    'Cancel Card': { reason?: string };
+  };
+  traits: { plan: 'Free' | 'Premium' };
+}
+
+const client = new SegmentClient<Plan>({ apiKey: '1' });
+
+client.track({ event: 'Purchase Card', properties: { color: 'red' } });
+client.track({ event: 'Cancel Card' });
+client.trackThrottled({ event: 'Cancel Card', properties: {} }, 100);
+client.identify({ userId: '1', traits: { plan: 'Free' } });
+
+// $ExpectError
+client.track({ event: 'Purchase Card' });
+
+// $ExpectError
+client.track({ event: 'Purchase Card', properties: { note: 'Gift' } });
+
+// $ExpectError
+client.track({ event: 'Purchase Card', properties: { color: 'blue' } });
+
+// $ExpectError
+client.track({ event: 'Unknown Event' });
+
+// $ExpectError
+client.trackDebounced({ event: 'Purchase Card' }, 100);
+
+// $ExpectError
+client.identify({ userId: '1', traits: { plan: 'Gold' } });
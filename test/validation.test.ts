@@ -0,0 +1,161 @@
+import {
+  SegmentClient,
+  Analytics,
+  TrackingPlanSchema,
+  TrackingPlanError,
+  validateSchema,
+} from '../src';
+
+function createFakeAnalytics(): Analytics {
+  return {
+    track: jest.fn(),
+    identify: jest.fn(),
+    group: jest.fn(),
+    alias: jest.fn(),
+    debug: jest.fn(),
+    page: jest.fn(),
+    trackLink: jest.fn(),
+    trackForm: jest.fn(),
+    ready: jest.fn(),
+    user: jest.fn(() => ({
+      id: () => null,
+      anonymousId: () => null,
+      traits: () => ({}),
+    })),
+    reset: jest.fn(),
+    timeout: jest.fn(),
+    setAnonymousId: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    once: jest.fn(),
+  };
+}
+
+const trackingPlan: TrackingPlanSchema = {
+  events: {
+    'Purchase Card': {
+      type: 'object',
+      properties: {
+        color: { type: 'string', enum: ['red', 'yellow'] },
+        quantity: { type: 'integer', minimum: 1 },
+      },
+      required: ['color'],
+      additionalProperties: false,
+    },
+  },
+  traits: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+    },
+  },
+};
+
+describe('validateSchema', () => {
+  it('should return no errors for valid values', () => {
+    expect(
+      validateSchema(trackingPlan.events!['Purchase Card'], {
+        color: 'red',
+        quantity: 2,
+      })
+    ).toEqual([]);
+  });
+
+  it('should return an error for each problem', () => {
+    expect(
+      validateSchema(trackingPlan.events!['Purchase Card'], {
+        quantity: 0.5,
+        size: 'large',
+      })
+    ).toEqual([
+      { path: '$.color', message: 'is required' },
+      { path: '$.quantity', message: 'should be integer' },
+      { path: '$.size', message: 'is not allowed' },
+    ]);
+  });
+
+  it('should validate array items', () => {
+    expect(
+      validateSchema({ type: 'array', items: { type: 'number' } }, [1, 'two'])
+    ).toEqual([{ path: '$[1]', message: 'should be number' }]);
+  });
+});
+
+describe('SegmentClient tracking plan', () => {
+  it('should warn about violations and send the event by default', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const analytics = createFakeAnalytics();
+    const client = new SegmentClient({
+      apiKey: '1',
+      trackingPlan,
+    });
+    client.initialize(analytics);
+    client.track({ event: 'Purchase Card', properties: { color: 'blue' } });
+    expect(warn).toHaveBeenCalled();
+    expect(analytics.track).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should reject violations when the policy is throw', async done => {
+    const analytics = createFakeAnalytics();
+    const client = new SegmentClient({
+      apiKey: '1',
+      trackingPlan,
+      onViolation: 'throw',
+    });
+    client.initialize(analytics);
+    await expect(
+      client.track({ event: 'Purchase Crad', properties: { color: 'red' } })
+    ).rejects.toBeInstanceOf(TrackingPlanError);
+    expect(analytics.track).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('should drop violations when the policy is drop', async done => {
+    const analytics = createFakeAnalytics();
+    const client = new SegmentClient({
+      apiKey: '1',
+      trackingPlan,
+      onViolation: 'drop',
+    });
+    await client.identify({ userId: '12345', traits: { email: 'nope' } });
+    client.initialize(analytics);
+    expect(analytics.identify).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('should only validate production builds in debug mode', () => {
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    const onViolation = jest.fn();
+    new SegmentClient({ apiKey: '1', trackingPlan, onViolation }).track({
+      event: 'Purchase Crad',
+    });
+    expect(onViolation).not.toHaveBeenCalled();
+
+    new SegmentClient({
+      apiKey: '1',
+      trackingPlan,
+      onViolation,
+      debug: true,
+    }).track({ event: 'Purchase Crad' });
+    expect(onViolation).toHaveBeenCalled();
+    process.env.NODE_ENV = env;
+  });
+
+  it('should pass violations to a custom handler', () => {
+    const onViolation = jest.fn();
+    const client = new SegmentClient({
+      apiKey: '1',
+      trackingPlan,
+      onViolation,
+    });
+    client.track({ event: 'Purchase Card', properties: { color: 'red' } });
+    expect(onViolation).not.toHaveBeenCalled();
+    client.track({ event: 'Purchase Card' });
+    expect(onViolation).toHaveBeenCalledWith({
+      message: expect.objectContaining({ type: 'track' }),
+      errors: [{ path: '$.properties.color', message: 'is required' }],
+    });
+  });
+});
@@ -0,0 +1,18 @@
+// Adds the Segment matchers to Jest's `expect`, after `expect.extend(segmentMatchers)`. Reference this file with
+// `/// <reference types="@newfront/react-segment-hooks/testing/matchers" />` or add it to your tsconfig's `include`.
+declare namespace jest {
+  interface Matchers<R, T = {}> {
+    /**
+     * Check that an event was tracked, with at least the given properties.
+     */
+    toHaveTracked(event: string, properties?: Record<string, any>): R;
+    /**
+     * Check that the user was identified, with at least the given traits.
+     */
+    toHaveIdentified(userId: string, traits?: Record<string, any>): R;
+    /**
+     * Check that a page call was sent, for the page with this name if one is given.
+     */
+    toHaveTrackedPage(name?: string, properties?: Record<string, any>): R;
+  }
+}
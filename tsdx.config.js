@@ -0,0 +1,54 @@
+const path = require('path');
+
+/**
+ * Pick the development or production build of the testing entry point, like the dist/index.js tsdx writes for the
+ * main one.
+ */
+const testingEntry = `'use strict'
+
+if (process.env.NODE_ENV === 'production') {
+  module.exports = require('./testing.cjs.production.min.js')
+} else {
+  module.exports = require('./testing.cjs.development.js')
+}
+`;
+
+/**
+ * Build the testing entry point into the same bundles as the main one. Modules they both use, like the React
+ * context, end up in a shared chunk instead of each entry point getting its own copy.
+ */
+module.exports = {
+  rollup(config) {
+    const { file, ...output } = config.output;
+    const base = path.basename(file);
+    const name = base.slice(0, base.indexOf('.'));
+    const suffix = base.slice(base.indexOf('.'));
+    const plugins = [...config.plugins];
+    if (output.format === 'cjs') {
+      plugins.push({
+        name: 'testing-entry',
+        generateBundle() {
+          this.emitFile({
+            type: 'asset',
+            fileName: 'testing.js',
+            source: testingEntry,
+          });
+        },
+      });
+    }
+    return {
+      ...config,
+      input: {
+        [name]: config.input,
+        testing: 'src/testing.tsx',
+      },
+      plugins,
+      output: {
+        ...output,
+        dir: path.dirname(file),
+        entryFileNames: `[name]${suffix}`,
+        chunkFileNames: `[name]-[hash]${suffix}`,
+      },
+    };
+  },
+};